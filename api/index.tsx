@@ -1,77 +1,34 @@
 /** @jsxImportSource frog/jsx */
 
-import { Button, Frog } from 'frog'
+import { Button, Frog, TextInput, type FrameContext, type FrameIntent } from 'frog'
 import { handle } from 'frog/vercel'
 import { neynar } from 'frog/middlewares'
 import { NeynarVariables } from 'frog/middlewares'
-import admin from 'firebase-admin';
-import { gql, GraphQLClient } from "graphql-request";
+import { ClientError, gql, GraphQLClient } from "graphql-request";
+import { fromFarcasterTime, getSSLHubRpcClient, Message, MessageType, Metadata, validations, type HubRpcClient } from '@farcaster/hub-nodejs';
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { config } from '../lib/config.js';
+import {
+  COORDINATES, DIFFICULTIES, VARIANTS, checkWin, getCoordinates, getWinLines,
+  type Difficulty, type GameMode, type GameState, type Seat, type TurnOrder, type UltimateState, type Variant,
+} from '../lib/game-rules.js';
+import { extendLogContext, logger, runWithLogContext, traceUpstream } from '../lib/logger.js';
+import {
+  MatchMoveError, createStatsRepository, emptyUserRecord,
+  type BadgeId, type GameOutcome, type GameRecord, type GameSession, type LeaderboardEntry,
+  type MatchRecord, type PvpRecord, type RankedField, type UserRecord,
+} from '../lib/stats-repository.js';
 
-const AIRSTACK_API_URL = 'https://api.airstack.xyz/gql';
 const AIRSTACK_API_KEY = process.env.AIRSTACK_API_KEY as string;
 const AIRSTACK_API_KEY_SECONDARY = process.env.AIRSTACK_API_KEY_SECONDARY as string;
 const NEYNAR_API_KEY = process.env.NEYNAR_API_KEY as string;
-const MOXIE_VESTING_API_URL = "https://api.studio.thegraph.com/query/23537/moxie_vesting_mainnet/version/latest";
-const MOXIE_API_URL = "https://api.studio.thegraph.com/query/23537/moxie_protocol_stats_mainnet/version/latest";
-const WIN_GIF_URL = 'https://bafybeie6qqm6r24chds5smesevkrdsg3jqmgw5wdmwzat7zdze3ukcgd5m.ipfs.w3s.link/giphy-downsized%202.GIF'
-const LOSE_GIF_URL = 'https://bafybeighyzexsg3vjxli5o6yfxfxuwrwsjoljnruvwhpqklqdyddpsxxry.ipfs.w3s.link/giphy%202.GIF'
-const DRAW_GIF_URL = 'https://bafybeigniqc263vmmcwmy2l4hitkklyarbu2e6s3q46izzalxswe5wbyaa.ipfs.w3s.link/giphy.GIF'
-
-let db: admin.firestore.Firestore | null = null;
-let initializationError: Error | null = null;
-
-try {
-  console.log('Starting Firebase initialization...');
-
-  const projectId = process.env.FIREBASE_PROJECT_ID;
-  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
-  const privateKey = process.env.FIREBASE_PRIVATE_KEY;
-
-  console.log('Environment variables loaded:');
-  console.log('Project ID:', projectId);
-  console.log('Client Email:', clientEmail);
-  console.log('Private Key exists:', !!privateKey);
-
-  if (!projectId || !clientEmail || !privateKey) {
-    throw new Error('Missing Firebase configuration environment variables');
-  }
-
-  if (!admin.apps.length) {
-    admin.initializeApp({
-      credential: admin.credential.cert({
-        projectId,
-        clientEmail,
-        privateKey: privateKey.replace(/\\n/g, '\n'),
-      }),
-    });
-    console.log('Firebase Admin SDK initialized successfully');
-  } else {
-    console.log('Firebase app already initialized');
-  }
-
-  db = admin.firestore();
-  console.log('Firestore instance created successfully');
-} catch (error) {
-  console.error('Error in Firebase initialization:', error);
-  if (error instanceof Error) {
-    console.error('Error name:', error.name);
-    console.error('Error message:', error.message);
-    console.error('Error stack:', error.stack);
-    initializationError = error;
-  }
-  db = null;
-}
 
-const getDb = () => {
-  if (db) {
-    return db;
-  }
-  if (initializationError) {
-    console.error('Firestore initialization failed earlier:', initializationError);
-    throw initializationError;
-  }
-  throw new Error('Firestore is not initialized and no initialization error was caught');
-};
+// Secret used to sign game state handed to the client in button values and links.
+// Config requires it once deployed, local runs fall back to a key of their own.
+const GAME_STATE_SECRET = config.gameStateSecret || (() => {
+  logger.warn('GAME_STATE_SECRET is not set. Using a random per-instance key for signing game state.');
+  return randomBytes(32).toString('hex');
+})();
 
 export const app = new Frog<{ Variables: NeynarVariables }>({
   basePath: '/api',
@@ -94,7 +51,7 @@ export const app = new Frog<{ Variables: NeynarVariables }>({
   imageAspectRatio: '1:1',
   title: 'Tic-Tac-Maxi Game',
   hub: {
-    apiUrl: "https://hubs.airstack.xyz",
+    apiUrl: config.endpoints.airstackHub,
     fetchOptions: {
       headers: {
         "x-airstack-hubs": AIRSTACK_API_KEY,
@@ -102,6 +59,17 @@ export const app = new Frog<{ Variables: NeynarVariables }>({
       }
     }
   }
+}).use(async (c, next) => {
+  // Every entry logged while handling the request shares its ID, route and claimed FID.
+  // The verified `fid` joins them once rejectUnverifiedFrame has checked the message.
+  const body = c.req.method === 'POST' ? await c.req.json().catch(() => null) : null;
+  const untrustedFid = Number(body?.untrustedData?.fid) || undefined;
+  const requestId = c.req.header('x-vercel-id') || randomUUID();
+  const startedAt = performance.now();
+  await runWithLogContext({ requestId, route: c.req.path, untrustedFid }, async () => {
+    await next();
+    logger.info('Request handled', { method: c.req.method, status: c.res.status, latencyMs: Math.round(performance.now() - startedAt) });
+  });
 }).use(
   neynar({
     apiKey: NEYNAR_API_KEY, 
@@ -109,24 +77,328 @@ export const app = new Frog<{ Variables: NeynarVariables }>({
   })
 );
 
-const COORDINATES = ['A1', 'A2', 'A3', 'B1', 'B2', 'B3', 'C1', 'C2', 'C3']
+// Absolute URL of a route on this deployment, e.g. appUrl('/daily')
+function appUrl(path: string): string {
+  return `${config.baseUrl}/api${path}`;
+}
 
-type GameState = {
-  board: (string | null)[];
-  currentPlayer: 'O' | 'X';
-  isGameOver: boolean;
-  difficulty: 'easy' | 'medium' | 'hard';
+// Link that opens a prefilled cast embedding `embedUrl`
+function composeCastUrl(text: string, embedUrl: string): string {
+  return `${config.endpoints.castCompose}?text=${encodeURIComponent(text)}&embeds[]=${encodeURIComponent(embedUrl)}`;
+}
+
+// Signed frame messages older than this are refused, so a captured request can't be replayed later
+const FRAME_MESSAGE_MAX_AGE_SECONDS = config.frameVerification.maxAgeSeconds;
+// Allowance for clients whose clock runs ahead of ours
+const FRAME_MESSAGE_CLOCK_SKEW_SECONDS = 30;
+
+// Thrown when a POST's signed frame message is missing, forged, stale or doesn't match the request
+export class FrameVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrameVerificationError';
+  }
+}
+
+// Checks that a frame message was signed by a key its FID has registered.
+// Implementations resolve with the reason instead of throwing when the message is rejected.
+interface FrameHubClient {
+  validateMessage(message: Message): Promise<{ valid: boolean, error?: string }>;
+}
+
+// Asks a hub over gRPC, which also checks the signer is registered on-chain for the FID
+function createGrpcHubClient(address: string): FrameHubClient {
+  let client: HubRpcClient | null = null;
+  return {
+    async validateMessage(message) {
+      client ??= getSSLHubRpcClient(address);
+      const metadata = new Metadata();
+      if (AIRSTACK_API_KEY) {
+        metadata.add('x-airstack-hubs', AIRSTACK_API_KEY);
+      }
+      const result = await traceUpstream('Hub message validation', () => client!.validateMessage(message, metadata));
+      if (result.isErr()) {
+        throw new Error(`Hub ${address} could not validate message: ${result.error.message}`);
+      }
+      return result.value.valid ? { valid: true } : { valid: false, error: 'Hub rejected the message' };
+    },
+  };
+}
+
+// Checks only the hash and the Ed25519 signature, without asking whether the signer belongs to the FID.
+// For local development and tests that have no hub to talk to.
+function createLocalHubClient(): FrameHubClient {
+  return {
+    async validateMessage(message) {
+      const result = await validations.validateMessage(message);
+      return result.isErr() ? { valid: false, error: result.error.message } : { valid: true };
+    },
+  };
+}
+
+// HUB_CLIENT picks the verifier: grpc (default, HUB_RPC_ADDRESS) or local
+function createFrameHubClient(): FrameHubClient {
+  switch (config.frameVerification.hubClient) {
+    case 'grpc':
+      return createGrpcHubClient(config.endpoints.hubRpc);
+    case 'local':
+      return createLocalHubClient();
+  }
+}
+
+const frameHubClient = createFrameHubClient();
+
+// Verifies the signed message behind a frame POST and that it is the one Frog parsed `frameData` from.
+// Throws FrameVerificationError when the request can't be trusted.
+export async function verifyFrameMessage(c: FrameContext<{ Variables: NeynarVariables }>, now: number = Date.now()): Promise<Message> {
+  let body: { trustedData?: { messageBytes?: unknown }, untrustedData?: { state?: unknown } };
+  try {
+    body = await c.req.json();
+  } catch {
+    throw new FrameVerificationError('Request body is not JSON');
+  }
+  const messageBytes = body.trustedData?.messageBytes;
+  if (typeof messageBytes !== 'string' || !/^(0x)?([0-9a-f]{2})+$/i.test(messageBytes)) {
+    throw new FrameVerificationError('Request has no signed frame message');
+  }
+
+  let message: Message;
+  try {
+    message = Message.decode(Buffer.from(messageBytes.replace(/^0x/i, ''), 'hex'));
+  } catch {
+    throw new FrameVerificationError('Signed frame message could not be decoded');
+  }
+
+  const validation = await frameHubClient.validateMessage(message);
+  if (!validation.valid) {
+    throw new FrameVerificationError(`Invalid frame message: ${validation.error ?? 'unknown reason'}`);
+  }
+
+  const data = message.data;
+  const action = data?.frameActionBody;
+  if (!data || data.type !== MessageType.FRAME_ACTION || !action) {
+    throw new FrameVerificationError('Signed message is not a frame action');
+  }
+
+  const sentAt = fromFarcasterTime(data.timestamp);
+  if (sentAt.isErr()) {
+    throw new FrameVerificationError('Frame message has an invalid timestamp');
+  }
+  const ageSeconds = (now - sentAt.value) / 1000;
+  if (ageSeconds > FRAME_MESSAGE_MAX_AGE_SECONDS || ageSeconds < -FRAME_MESSAGE_CLOCK_SKEW_SECONDS) {
+    throw new FrameVerificationError(`Frame message is ${Math.round(ageSeconds)}s old, outside the ${FRAME_MESSAGE_MAX_AGE_SECONDS}s window`);
+  }
+
+  // frameData comes from the untrusted half of the body, so it must agree with what was signed
+  const { frameData } = c;
+  const inputText = Buffer.from(action.inputText).toString('utf8');
+  if (!frameData || frameData.fid !== data.fid || frameData.buttonIndex !== action.buttonIndex || (frameData.inputText ?? '') !== inputText) {
+    throw new FrameVerificationError(`Frame data does not match the message signed by FID ${data.fid}`);
+  }
+  // Frog reads the button values from the untrusted state, so it must be the state that was signed too
+  if ((body.untrustedData?.state ?? '') !== Buffer.from(action.state).toString('utf8')) {
+    throw new FrameVerificationError(`Frame state does not match the message signed by FID ${data.fid}`);
+  }
+
+  // A message signed for another frame server can't be replayed here
+  const frameUrl = Buffer.from(action.url).toString('utf8');
+  const base = appUrl('');
+  if (frameUrl !== base && !frameUrl.startsWith(`${base}/`) && !frameUrl.startsWith(`${base}?`)) {
+    throw new FrameVerificationError(`Frame message was signed for ${frameUrl}, not this app`);
+  }
+
+  // Each message is accepted once, so it can't be sent again with a different button value
+  const claimed = await statsRepository.claimFrameMessage(
+    Buffer.from(message.hash).toString('hex'),
+    new Date(sentAt.value + (FRAME_MESSAGE_MAX_AGE_SECONDS + FRAME_MESSAGE_CLOCK_SKEW_SECONDS) * 1000),
+  );
+  if (!claimed) {
+    throw new FrameVerificationError('Frame message was already used');
+  }
+  return message;
+}
+
+// Guard for routes that write player data. Resolves with a frame to return when the POST can't be trusted,
+// or null to carry on. Initial GETs carry no message and write nothing, so they pass.
+async function rejectUnverifiedFrame(c: FrameContext<{ Variables: NeynarVariables }>) {
+  if (c.status !== 'response') return null;
+  try {
+    await verifyFrameMessage(c);
+    extendLogContext({ fid: c.frameData?.fid });
+    return null;
+  } catch (error) {
+    let message = 'This request could not be verified. Please try again from your Farcaster client.';
+    if (error instanceof FrameVerificationError) {
+      logger.warn('Rejected unverified frame request', { reason: error.message });
+    } else {
+      // Hub unreachable, fail closed rather than write unverified results
+      logger.error('Error verifying frame message', { error });
+      message = 'We could not verify this request right now. Please try again in a moment.';
+    }
+    return renderMessageFrame(c, message, [
+      <Button action="/">Home</Button>
+    ]);
+  }
+}
+
+const GAME_MODES: GameMode[] = [...Object.keys(VARIANTS) as Variant[], 'ultimate']
+
+function getModeLabel(mode: GameMode): string {
+  return mode === 'ultimate' ? 'Ultimate' : VARIANTS[mode].label;
+}
+
+// Accepts a variant key, its label or just the board size, so "4", "4x4" and "4X4" all work.
+// Blank input means classic, anything unrecognised gives null.
+function parseVariant(input: string | undefined): Variant | null {
+  const normalized = (input || '').trim().toLowerCase();
+  if (!normalized) return 'classic';
+  const match = (Object.keys(VARIANTS) as Variant[]).find(variant =>
+    [variant, VARIANTS[variant].label.toLowerCase(), String(VARIANTS[variant].size)].includes(normalized)
+  );
+  return match || null;
+}
+
+type GameOptions = {
+  mode: GameMode;
+  turnOrder?: TurnOrder;
+  playerMark?: 'O' | 'X';
+  unknown: string[];  // Words that matched nothing, the game starts without them
+}
+
+// Splits the text typed next to the difficulty buttons into a mode, a turn order and a mark,
+// in any order, e.g. "wild second" or "x alternate 4x4". Left-out options stay undefined.
+function parseGameOptions(input: string | undefined): GameOptions {
+  const options: GameOptions = { mode: 'classic', unknown: [] };
+  for (const word of (input || '').trim().toLowerCase().split(/\s+/).filter(Boolean)) {
+    const variant = parseVariant(word);
+    if (word === 'first' || word === 'second' || word === 'alternate') {
+      options.turnOrder = word;
+    } else if (word === 'x' || word === 'o') {
+      options.playerMark = word === 'x' ? 'X' : 'O';
+    } else if (word === 'ultimate') {
+      options.mode = 'ultimate';
+    } else if (variant) {
+      options.mode = variant;
+    } else {
+      options.unknown.push(word);
+    }
+  }
+  return options;
+}
+
+// Turns typed input such as "b2" into a board index, or null when it isn't a cell
+function parseCoordinate(input: string | undefined, coordinates: string[] = COORDINATES): number | null {
+  const index = coordinates.indexOf((input || '').trim().toUpperCase());
+  return index === -1 ? null : index;
+}
+
+function describeInvalidCoordinate(input: string | undefined, size: number = 3): string {
+  if (!input || !input.trim()) {
+    return 'Type a cell like B2, then tap Play.';
+  }
+  const lastRow = String.fromCharCode(64 + size);
+  return `"${input.trim()}" is not a cell. Use a row A-${lastRow} and a column 1-${size}, like B2.`;
+}
+
+const DEFAULT_SEAT: Seat = { playerMark: 'O', playerFirst: true }
+
+// Hints the Hint button gives per CPU game
+const HINTS_PER_GAME = 2
+
+// Thrown when a game state coming back from the client can't be trusted
+export class InvalidGameStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidGameStateError';
+  }
+}
+
+// A named set of POD Score weights. Published versions are never edited, changes go in a new version
+// so every stored score can be traced back to the rules that produced it.
+type ScoringConfig = {
+  version: string;
+  winWeights: Record<Difficulty, number>;
+  legacyWinWeight: number;  // Wins recorded before results were kept per difficulty
+  tieWeight: number;
+  lossWeight: number;
+  hintedWinFactor?: number;  // Share of a win's weight earned by a win that used hints, full weight if left out
+  diminishingEasyCredit?: boolean;  // Leaves out the credit withheld from easy games past the daily allowance
+  gamesBonus: { every: number, points: number };  // +points for every `every` games played
+  tokenMultiplier: number;  // Points per /thepod fan token owned
+}
+
+export const SCORING_CONFIGS: Record<string, ScoringConfig> = {
+  v1: {
+    version: 'v1',
+    winWeights: { easy: 2, medium: 2, hard: 2, impossible: 2 },
+    legacyWinWeight: 2,
+    tieWeight: 1,
+    lossWeight: 0.5,
+    gamesBonus: { every: 25, points: 10 },
+    tokenMultiplier: 25,
+  },
+  v2: {
+    version: 'v2',
+    winWeights: { easy: 1, medium: 2, hard: 3, impossible: 4 },
+    legacyWinWeight: 2,
+    tieWeight: 1,
+    lossWeight: 0,
+    gamesBonus: { every: 25, points: 10 },
+    tokenMultiplier: 25,
+  },
+  v3: {
+    version: 'v3',
+    winWeights: { easy: 1, medium: 2, hard: 3, impossible: 4 },
+    legacyWinWeight: 2,
+    tieWeight: 1,
+    lossWeight: 0,
+    hintedWinFactor: 0.5,
+    gamesBonus: { every: 25, points: 10 },
+    tokenMultiplier: 25,
+  },
+  v4: {
+    version: 'v4',
+    winWeights: { easy: 1, medium: 2, hard: 3, impossible: 4 },
+    legacyWinWeight: 2,
+    tieWeight: 1,
+    lossWeight: 0,
+    hintedWinFactor: 0.5,
+    diminishingEasyCredit: true,
+    gamesBonus: { every: 25, points: 10 },
+    tokenMultiplier: 25,
+  },
+};
+
+export function getScoringConfig(version: string): ScoringConfig {
+  const config = SCORING_CONFIGS[version];
+  if (!config) {
+    throw new Error(`Unknown POD Score version "${version}", expected one of: ${Object.keys(SCORING_CONFIGS).join(', ')}`);
+  }
+  return config;
 }
 
-function calculatePODScore(wins: number, ties: number, losses: number, totalGames: number, tokenBalance: number): number {
+// Scores stored from here on are tagged with this version
+export const activeScoringConfig = getScoringConfig(process.env.POD_SCORE_VERSION || 'v4');
+
+function calculatePODScore(record: UserRecord, tokenBalance: number, config: ScoringConfig = activeScoringConfig): number {
+  const withheld = (config.diminishingEasyCredit && record.withheldEasyCredit) || { wins: 0, losses: 0, ties: 0 };
+  const totalGames = record.wins + record.losses + record.ties - withheld.wins - withheld.losses - withheld.ties;
+
   // Base score calculation
-  const baseScore = (wins * 2) + ties + (losses * 0.5);
-  
-  // Games bonus: +10 points for every 25 games played
-  const gamesBonus = Math.floor(totalGames / 25) * 10;
+  let attributedWins = 0;
+  let winPoints = 0;
+  const hintedWinFactor = config.hintedWinFactor ?? 1;
+  for (const difficulty of DIFFICULTIES) {
+    const hintedWins = record.hintedWins?.[difficulty] || 0;
+    const withheldWins = difficulty === 'easy' ? withheld.wins : 0;
+    attributedWins += record[`${difficulty}Wins`];
+    winPoints += Math.max(0, record[`${difficulty}Wins`] - hintedWins + hintedWins * hintedWinFactor - withheldWins) * config.winWeights[difficulty];
+  }
+  winPoints += Math.max(0, record.wins - attributedWins) * config.legacyWinWeight;
+  const baseScore = winPoints + ((record.ties - withheld.ties) * config.tieWeight) + ((record.losses - withheld.losses) * config.lossWeight);
   
-  // Token bonus: +25 points PER /thepod fan token owned
-  const tokenBonus = tokenBalance * 25;
+  const gamesBonus = Math.floor(totalGames / config.gamesBonus.every) * config.gamesBonus.points;
+  const tokenBonus = tokenBalance * config.tokenMultiplier;
   
   // Calculate total score
   const totalScore = baseScore + gamesBonus + tokenBonus;
@@ -135,6 +407,14 @@ function calculatePODScore(wins: number, ties: number, losses: number, totalGame
   return Math.round(totalScore * 10) / 10;
 }
 
+// Anti-farming rules. Moves over the limit are refused, finished games that break a rule
+// are stored for review instead of counted.
+const ABUSE_LIMITS = {
+  movesPerMinute: 30,
+  gamesPerHour: 40,
+  minGameSeconds: 5,  // Anything faster can't have been played through frames
+}
+
 
 interface TokenHolding {
   balance: string;
@@ -148,7 +428,7 @@ interface TokenHolding {
 }
 
 async function getFarcasterAddressesFromFID(fid: string): Promise<string[]> {
-  const graphQLClient = new GraphQLClient(AIRSTACK_API_URL, {
+  const graphQLClient = new GraphQLClient(config.endpoints.airstackApi, {
     headers: {
       'Authorization': AIRSTACK_API_KEY,
     },
@@ -174,25 +454,22 @@ async function getFarcasterAddressesFromFID(fid: string): Promise<string[]> {
     identity: `fc_fid:${fid}`
   };
 
-  try {
-    const data = await graphQLClient.request<any>(query, variables);
-    console.log('Airstack API response:', JSON.stringify(data, null, 2));
-
-    if (!data.Socials || !data.Socials.Social || data.Socials.Social.length === 0) {
-      throw new Error(`No Farcaster profile found for FID: ${fid}`);
-    }
+  // Failures are logged by withRetry and rethrown
+  const data = await withRetry('Airstack address lookup', () => graphQLClient.request<any>(query, variables));
 
-    const social = data.Socials.Social[0];
-    const addresses = [social.userAddress, ...(social.userAssociatedAddresses || [])];
-    return [...new Set(addresses)]; // Remove duplicates
-  } catch (error) {
-    console.error('Error fetching Farcaster addresses from Airstack:', error);
-    throw error;
+  // A missing profile is a real answer (no tokens), not a failure worth retrying
+  if (!data.Socials || !data.Socials.Social || data.Socials.Social.length === 0) {
+    logger.debug('No Farcaster profile found', { playerFid: fid });
+    return [];
   }
+
+  const social = data.Socials.Social[0];
+  const addresses = [social.userAddress, ...(social.userAssociatedAddresses || [])];
+  return [...new Set(addresses)]; // Remove duplicates
 }
 
 async function getVestingContractAddress(beneficiaryAddresses: string[]): Promise<string | null> {
-  const graphQLClient = new GraphQLClient(MOXIE_VESTING_API_URL);
+  const graphQLClient = new GraphQLClient(config.endpoints.moxieVestingApi);
 
   const query = gql`
     query MyQuery($beneficiaries: [Bytes!]) {
@@ -207,18 +484,13 @@ async function getVestingContractAddress(beneficiaryAddresses: string[]): Promis
     beneficiaries: beneficiaryAddresses.map(address => address.toLowerCase())
   };
 
-  try {
-    const data = await graphQLClient.request<any>(query, variables);
-    console.log('Vesting contract data:', JSON.stringify(data, null, 2));
+  // A failed lookup rejects, so it isn't mistaken for "no vesting contract"
+  const data = await withRetry('Moxie vesting lookup', () => graphQLClient.request<any>(query, variables));
 
-    if (data.tokenLockWallets && data.tokenLockWallets.length > 0) {
-      return data.tokenLockWallets[0].address;
-    } else {
-      console.log(`No vesting contract found for addresses: ${beneficiaryAddresses.join(', ')}`);
-      return null;
-    }
-  } catch (error) {
-    console.error('Error fetching vesting contract address:', error);
+  if (data.tokenLockWallets && data.tokenLockWallets.length > 0) {
+    return data.tokenLockWallets[0].address;
+  } else {
+    logger.debug('No vesting contract found', { addressCount: beneficiaryAddresses.length });
     return null;
   }
 }
@@ -228,9 +500,49 @@ function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+// Network failures and 5xx responses can pass on their own. A 4xx or a GraphQL error would only fail again.
+function isTransientError(error: unknown): boolean {
+  if (error instanceof ClientError) {
+    return error.response.status >= 500;
+  }
+  return error instanceof TypeError && error.message === 'fetch failed';
+}
+
+// Retries a flaky upstream call with exponential backoff plus jitter, then rethrows the last error.
+// Errors that aren't transient are rethrown straight away. Logs one summary line for all the attempts together.
+async function withRetry<T>(label: string, fn: () => Promise<T>, attempts: number = 3, baseDelayMs: number = 300): Promise<T> {
+  let attempt = 0;
+  return traceUpstream(label, async () => {
+    for (attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (error) {
+        if (attempt >= attempts || !isTransientError(error)) {
+          throw error;
+        }
+        const wait = baseDelayMs * 2 ** (attempt - 1) + Math.random() * baseDelayMs;
+        logger.debug('Retrying upstream call', { service: label, attempt, retryInMs: Math.round(wait), error });
+        await delay(wait);
+      }
+    }
+  }, () => ({ attempts: attempt }));
+}
+
+// Rejects once `ms` have passed, logging that it did. The call itself carries on, its result is dropped.
+function withDeadline<T>(label: string, promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      logger.warn('Upstream deadline passed', { service: label, deadlineMs: ms });
+      reject(new Error(`${label} took longer than ${ms} ms`));
+    }, ms);
+  });
+  return Promise.race([promise, deadline]).finally(() => clearTimeout(timer));
+}
+
 // Use it in getOwnedFanTokens
 async function getOwnedFanTokens(addresses: string[]): Promise<TokenHolding[] | null> {
-  const graphQLClient = new GraphQLClient(MOXIE_API_URL)
+  const graphQLClient = new GraphQLClient(config.endpoints.moxieStatsApi)
   const query = gql`
     query MyQuery($userAddresses: [ID!]) {
       users(where: { id_in: $userAddresses }) {
@@ -248,280 +560,720 @@ async function getOwnedFanTokens(addresses: string[]): Promise<TokenHolding[] |
     }
   `
 
-  try {
-    const data = await graphQLClient.request<any>(query, {
-      userAddresses: addresses.map(address => address.toLowerCase())
-    });
-    
-    console.log('Moxie API Response:', JSON.stringify(data, null, 2));
-    
-    return data.users?.[0]?.portfolio || null;
-  } catch (error) {
-    console.error('Error fetching fan tokens:', error);
-    return null;
-  }
+  // A failed lookup rejects, so it isn't mistaken for an empty portfolio
+  const data = await withRetry('Moxie portfolio lookup', () => graphQLClient.request<any>(query, {
+    userAddresses: addresses.map(address => address.toLowerCase())
+  }));
+
+  return data.users?.[0]?.portfolio || null;
 }
 
-async function checkFanTokenOwnership(fid: string): Promise<{ ownsToken: boolean; balance: number }> {
-  try {
-    const addresses = await getFarcasterAddressesFromFID(fid);
-    console.log('Found addresses:', addresses);
+// `live` came from the APIs just now, `last-known` is the most recent successful lookup
+// used while the APIs are failing, and `unknown` means there is nothing to fall back on
+type FanTokenBalance = {
+  ownsToken: boolean;
+  balance: number | null;
+  source: 'live' | 'last-known' | 'unknown';
+}
 
-    if (!addresses || addresses.length === 0) {
-      return { ownsToken: false, balance: 0 };
-    }
+// Last successful balance per FID on this instance. The stored `tokenBalance` backs it up across instances.
+const lastKnownTokenBalances = new Map<string, number>();
 
-    // Get vesting contract address if it exists
-    const vestingAddress = await getVestingContractAddress(addresses);
-    if (vestingAddress) {
-      addresses.push(vestingAddress);
-    }
+// The lookup chains up to three upstream calls with their retries, past this the last-known balance is used
+const FAN_TOKEN_LOOKUP_DEADLINE_MS = 3000;
 
-    const fanTokenData = await getOwnedFanTokens(addresses);
-    console.log('Fan token data:', fanTokenData);
+async function lookupFanTokenBalance(fid: string): Promise<number> {
+  const addresses = await getFarcasterAddressesFromFID(fid);
 
-    if (!fanTokenData) {
-      return { ownsToken: false, balance: 0 };
-    }
+  if (!addresses || addresses.length === 0) {
+    return 0;
+  }
 
-    // Fix: Correctly find the thepod token
-    const thepodToken = fanTokenData.find((token: TokenHolding) => 
-      token.subjectToken.symbol.toLowerCase() === "cid:thepod"
-    );
+  // Get vesting contract address if it exists
+  const vestingAddress = await getVestingContractAddress(addresses);
+  if (vestingAddress) {
+    addresses.push(vestingAddress);
+  }
 
-    console.log('Found thepod token:', thepodToken);
+  const fanTokenData = await getOwnedFanTokens(addresses);
 
-    if (thepodToken && parseFloat(thepodToken.balance) > 0) {
-      const balance = parseFloat(thepodToken.balance) / 1e18; // Convert from wei
-      console.log('Calculated balance:', balance);
-      return { ownsToken: true, balance };
-    }
+  if (!fanTokenData) {
+    return 0;
+  }
 
-    return { ownsToken: false, balance: 0 };
-  } catch (error) {
-    console.error('Error checking fan token ownership:', error);
-    return { ownsToken: false, balance: 0 };
+  // Fix: Correctly find the thepod token
+  const thepodToken = fanTokenData.find((token: TokenHolding) => 
+    token.subjectToken.symbol.toLowerCase() === "cid:thepod"
+  );
+
+  if (thepodToken && parseFloat(thepodToken.balance) > 0) {
+    const balance = parseFloat(thepodToken.balance) / 1e18; // Convert from wei
+    logger.debug('Fan token balance found', { playerFid: fid, addressCount: addresses.length, balance });
+    return balance;
+  }
+
+  return 0;
+}
+
+async function checkFanTokenOwnership(fid: string): Promise<FanTokenBalance> {
+  try {
+    const balance = await withDeadline('Fan token lookup', lookupFanTokenBalance(fid), FAN_TOKEN_LOOKUP_DEADLINE_MS);
+    lastKnownTokenBalances.set(fid, balance);
+    return { ownsToken: balance > 0, balance, source: 'live' };
+  } catch {
+    // Already logged once, by withRetry for the failed call or by withDeadline
+  }
+
+  let lastKnown = lastKnownTokenBalances.get(fid);
+  if (lastKnown === undefined) {
+    try {
+      lastKnown = (await statsRepository.getUserRecord(fid))?.tokenBalance;
+    } catch (error) {
+      logger.error('Error reading stored token balance', { playerFid: fid, error });
+    }
   }
+  if (lastKnown === undefined) {
+    return { ownsToken: false, balance: null, source: 'unknown' };
+  }
+  return { ownsToken: lastKnown > 0, balance: lastKnown, source: 'last-known' };
 }
 
 
 
 
 async function getTotalGamesPlayed(fid: string): Promise<number> {
-  console.log(`Attempting to get total games played for FID: ${fid}`);
   try {
-    const database = getDb();
-    const userDoc = await database.collection('users').doc(fid).get();
-    if (!userDoc.exists) {
-      console.log(`No record found for FID: ${fid}. Returning 0 total games.`);
+    const userData = await statsRepository.getUserRecord(fid);
+    if (!userData) {
       return 0;
     }
-    const userData = userDoc.data();
-    const wins = userData?.wins || 0;
-    const losses = userData?.losses || 0;
-    const ties = userData?.ties || 0;
-    const totalGames = wins + losses + ties;
-    console.log(`Total games played for FID ${fid}:`, totalGames);
-    return totalGames;
+    const { wins, losses, ties } = userData;
+    return wins + losses + ties;
   } catch (error) {
-    console.error(`Error getting total games played for FID ${fid}:`, error);
+    logger.error('Error getting total games played', { playerFid: fid, error });
     return 0;
   }
 }
 
-async function getUsername(fid: string): Promise<string> {
-  const query = `
-    query ($fid: String!) {
-      Socials(input: {filter: {dappName: {_eq: farcaster}, userId: {_eq: $fid}}, blockchain: ethereum}) {
-        Social {
-          profileName
-        }
-      }
-    }
-  `;
+type Profile = {
+  fid: string;
+  username: string;
+  profileImage: string | null;
+}
 
-  try {
-    const response = await fetch(AIRSTACK_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': AIRSTACK_API_KEY,
-      },
-      body: JSON.stringify({ query, variables: { fid } }),
-    });
+const PROFILE_CACHE_TTL_MS = 10 * 60 * 1000;
+const PROFILE_CACHE_SWEEP_MS = 60 * 1000;
 
-    const data = await response.json();
-    console.log('Username API response:', JSON.stringify(data));
-    
-    if (data?.data?.Socials?.Social?.[0]?.profileName) {
-      return data.data.Socials.Social[0].profileName;
-    } else {
-      console.log('Unexpected API response structure:', JSON.stringify(data));
-      return 'Player';
+const profileCache = new Map<string, { profile: Profile; expiresAt: number }>();
+// Lookups already on their way, so parallel callers for the same FID share one request
+const pendingProfiles = new Map<string, Promise<Profile>>();
+let lastProfileSweep = 0;
+
+function sweepProfileCache(now: number) {
+  if (now - lastProfileSweep < PROFILE_CACHE_SWEEP_MS) return;
+  lastProfileSweep = now;
+  for (const [fid, entry] of profileCache) {
+    if (entry.expiresAt <= now) {
+      profileCache.delete(fid);
     }
-  } catch (error) {
-    console.error('Error fetching username:', error);
-    return 'Player';
   }
 }
 
-async function getUserProfilePicture(fid: string): Promise<string | null> {
+function normalizeProfileImage(profileImage: string | null | undefined): string | null {
+  if (!profileImage) return null;
+  // Extract the original Imgur URL
+  const imgurMatch = profileImage.match(/https:\/\/i\.imgur\.com\/[^.]+\.[a-zA-Z]+/);
+  return imgurMatch ? imgurMatch[0] : profileImage;
+}
+
+// One Airstack query for every FID. FIDs without a profile get the 'Player' fallback.
+async function fetchProfiles(fids: string[]): Promise<Map<string, Profile>> {
   const query = `
-    query GetUserProfilePicture($fid: String!) {
-      Socials(
-        input: {filter: {dappName: {_eq: farcaster}, userId: {_eq: $fid}}, blockchain: ethereum}
-      ) {
+    query GetProfiles($fids: [String!]) {
+      Socials(input: {filter: {dappName: {_eq: farcaster}, userId: {_in: $fids}}, blockchain: ethereum, limit: 200}) {
         Social {
+          userId
+          profileName
           profileImage
         }
       }
     }
   `;
 
-  try {
-    const response = await fetch(AIRSTACK_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': AIRSTACK_API_KEY_SECONDARY,
-      },
-      body: JSON.stringify({ query, variables: { fid } }),
+  // Profile pictures used to be looked up with the secondary key. It now takes over when the primary key's request fails.
+  const apiKeys = [AIRSTACK_API_KEY, AIRSTACK_API_KEY_SECONDARY].filter(Boolean);
+  let keysTried = 0;
+  const data = await traceUpstream('Airstack profile lookup', async () => {
+    let lastError: unknown = new Error('AIRSTACK_API_KEY is not set');
+    for (const apiKey of apiKeys) {
+      keysTried++;
+      try {
+        const response = await fetch(config.endpoints.airstackApi, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': apiKey,
+          },
+          body: JSON.stringify({ query, variables: { fids } }),
+        });
+        const data = await response.json();
+        if (!response.ok || data?.errors) {
+          throw new Error(`Airstack profile lookup failed: ${JSON.stringify(data?.errors || response.status)}`);
+        }
+        return data;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }, () => ({ fidCount: fids.length, keysTried }));
+
+  const profiles = new Map<string, Profile>(fids.map(fid => [fid, { fid, username: 'Player', profileImage: null }]));
+  for (const social of data?.data?.Socials?.Social || []) {
+    profiles.set(social.userId, {
+      fid: social.userId,
+      username: social.profileName || 'Player',
+      profileImage: normalizeProfileImage(social.profileImage),
     });
+  }
+  return profiles;
+}
 
-    const data = await response.json();
-    console.log('Profile image API response:', JSON.stringify(data));
+// Cached username and avatar lookup for many FIDs at once
+async function getProfiles(fids: string[]): Promise<Map<string, Profile>> {
+  const now = Date.now();
+  sweepProfileCache(now);
 
-    if (data?.data?.Socials?.Social?.[0]?.profileImage) {
-      let profileImage = data.data.Socials.Social[0].profileImage;
-      // Extract the original Imgur URL
-      const imgurMatch = profileImage.match(/https:\/\/i\.imgur\.com\/[^.]+\.[a-zA-Z]+/);
-      if (imgurMatch) {
-        profileImage = imgurMatch[0];
-      }
-      console.log('Extracted profile image URL:', profileImage);
-      return profileImage;
-    } else {
-      console.log('No profile image found or unexpected API response structure');
-      return null;
+  const missing = [...new Set(fids)].filter(fid => {
+    const cached = profileCache.get(fid);
+    return !(cached && cached.expiresAt > now) && !pendingProfiles.has(fid);
+  });
+
+  if (missing.length > 0) {
+    const request = fetchProfiles(missing);
+    for (const fid of missing) {
+      const pending = request
+        .then(profiles => {
+          const profile = profiles.get(fid)!;
+          profileCache.set(fid, { profile, expiresAt: Date.now() + PROFILE_CACHE_TTL_MS });
+          return profile;
+        })
+        .catch(() => {
+          // Not cached, so the next render tries again. The failed lookup was logged by traceUpstream.
+          return { fid, username: 'Player', profileImage: null };
+        })
+        .finally(() => pendingProfiles.delete(fid));
+      pendingProfiles.set(fid, pending);
     }
-  } catch (error) {
-    console.error('Error fetching profile image:', error);
-    return null;
   }
+
+  const profiles = await Promise.all(fids.map(fid => {
+    const cached = profileCache.get(fid);
+    return cached && cached.expiresAt > now ? cached.profile : pendingProfiles.get(fid)!;
+  }));
+  return new Map(profiles.map(profile => [profile.fid, profile]));
+}
+
+async function getProfile(fid: string): Promise<Profile> {
+  return (await getProfiles([fid])).get(fid)!;
+}
+
+async function getUsername(fid: string): Promise<string> {
+  return (await getProfile(fid)).username;
+}
+
+async function getUserProfilePicture(fid: string): Promise<string | null> {
+  return (await getProfile(fid)).profileImage;
 }
 
-// Update the updateUserTie function to include difficulty
-async function updateUserTie(fid: string) {
-  console.log(`Attempting to update tie for FID: ${fid}`);
+const statsRepository = createStatsRepository();
+logger.info('Player stats backend ready', { backend: process.env.STATS_BACKEND || 'firestore' });
+
+// Add this function to get user record
+async function getUserRecord(fid: string): Promise<UserRecord> {
   try {
-    const database = getDb();
-    const userRef = database.collection('users').doc(fid);
-    await userRef.set({
-      ties: admin.firestore.FieldValue.increment(1)
-    }, { merge: true });
-    console.log(`User tie updated successfully for FID: ${fid}`);
+    return (await statsRepository.getUserRecord(fid)) || emptyUserRecord();
   } catch (error) {
-    console.error(`Error updating user tie for FID ${fid}:`, error);
+    logger.error('Error getting user record', { playerFid: fid, error });
+    return emptyUserRecord();
   }
 }
 
-async function updateUserTieAsync(fid: string) {
+// Newest first
+async function getGameHistory(fid: string, page: number, pageSize: number): Promise<{ games: GameRecord[], hasMore: boolean }> {
   try {
-    await updateUserTie(fid);
-    console.log(`User tie updated asynchronously for FID: ${fid}`);
+    const games = await statsRepository.getGames(fid, page * pageSize, pageSize + 1);
+    return { games: games.slice(0, pageSize), hasMore: games.length > pageSize };
   } catch (error) {
-    console.error(`Error updating user tie asynchronously for FID ${fid}:`, error);
+    logger.error('Error getting game history', { playerFid: fid, error });
+    return { games: [], hasMore: false };
   }
 }
 
-// Update UserRecord type to include profile images
-type UserRecord = {
-  wins: number;
-  losses: number;
-  ties: number;
-  easyWins: number;
-  mediumWins: number;
-  hardWins: number;
-  timestamp: admin.firestore.Timestamp;
-  profileImage?: string;  // Added this field
+// Fixed-window counters for the rate limits, keyed like `moves:${fid}`
+interface CounterStore {
+  // Adds one to `key` in the `windowMs` window containing `now` and resolves with the new count
+  increment(key: string, windowMs: number, now?: number): Promise<number>;
+  // The count in the window containing `now`, without adding to it
+  get(key: string, now?: number): Promise<number>;
+}
+
+// Counts per serverless instance, so a player spread over several instances gets each one's allowance
+function createMemoryCounterStore(): CounterStore {
+  const counters = new Map<string, { windowEnd: number, count: number }>();
+  return {
+    async increment(key, windowMs, now = Date.now()) {
+      const counter = counters.get(key);
+      if (counter && counter.windowEnd > now) {
+        counter.count += 1;
+        return counter.count;
+      }
+      for (const [staleKey, stale] of counters) {
+        if (stale.windowEnd <= now) counters.delete(staleKey);
+      }
+      counters.set(key, { windowEnd: now - (now % windowMs) + windowMs, count: 1 });
+      return 1;
+    },
+
+    async get(key, now = Date.now()) {
+      const counter = counters.get(key);
+      return counter && counter.windowEnd > now ? counter.count : 0;
+    },
+  };
+}
+
+const counterStore: CounterStore = createMemoryCounterStore();
+
+// Guard for routes where each POST plays a move. Resolves with a frame to return once the player
+// is over ABUSE_LIMITS.movesPerMinute, or null to carry on.
+async function rejectTooManyMoves(c: FrameContext<{ Variables: NeynarVariables }>) {
+  const fid = c.frameData?.fid;
+  if (c.status !== 'response' || !fid) return null;
+  const moves = await counterStore.increment(`moves:${fid}`, 60 * 1000);
+  if (moves <= ABUSE_LIMITS.movesPerMinute) return null;
+  logger.warn('Over the move limit', { movesThisMinute: moves });
+  return renderMessageFrame(c, "You're moving too fast! Take a breather and try again in a minute.", [
+    <Button action="/">Home</Button>
+  ]);
+}
+
+const GAMES_WINDOW_MS = 60 * 60 * 1000;
+
+// Reasons to hold a finished game back from the stats, empty when it can be counted.
+// Only stored games count towards the hourly limit, see countStoredGame.
+async function reviewGame(game: GameRecord): Promise<string[]> {
+  const reasons: string[] = [];
+  const finished = await counterStore.get(`games:${game.fid}`, game.endedAt.getTime()) + 1;
+  if (finished > ABUSE_LIMITS.gamesPerHour) {
+    reasons.push(`game ${finished} this hour, the limit is ${ABUSE_LIMITS.gamesPerHour}`);
+  }
+  // Forfeits end when the session expires or the player starts over, however quickly that was
+  const seconds = (game.endedAt.getTime() - game.startedAt.getTime()) / 1000;
+  if (!game.forfeited && seconds < ABUSE_LIMITS.minGameSeconds) {
+    reasons.push(`finished in ${seconds.toFixed(1)}s, the minimum is ${ABUSE_LIMITS.minGameSeconds}s`);
+  }
+  return reasons;
 }
 
-// When updating user record, also store their profile image
-async function updateUserRecord(fid: string, isWin: boolean, difficulty: 'easy' | 'medium' | 'hard') {
+async function countStoredGame(game: GameRecord): Promise<void> {
+  await counterStore.increment(`games:${game.fid}`, GAMES_WINDOW_MS, game.endedAt.getTime());
+}
+
+type GameRecording = {
+  badges: BadgeId[];  // Unlocked by this game
+  heldForReview: boolean;
+}
+
+// Saves the finished game and updates the player's stats together. Recording doubles as a
+// claim on the result, so the same signed state can't be replayed to count it twice.
+// Games that break the anti-farming rules are stored for review and count for nothing.
+async function recordGameResult(gameId: string, game: GameRecord): Promise<GameRecording> {
+  const { fid } = game;
   try {
-    const database = getDb();
-    const userRef = database.collection('users').doc(fid);
-    
+    const reasons = await reviewGame(game);
+    if (reasons.length > 0) {
+      if (!await statsRepository.flagGame({ id: gameId, game, reasons, flaggedAt: new Date() })) {
+        logger.warn('Game was already recorded, ignoring replay', { gameId, playerFid: fid });
+        return { badges: [], heldForReview: false };
+      }
+      await countStoredGame(game);
+      logger.warn('Game held for review', { gameId, playerFid: fid, reasons });
+      return { badges: [], heldForReview: true };
+    }
     // Get profile image
     const profileImage = await getUserProfilePicture(fid);
-    
-    const update: any = {
-      [isWin ? 'wins' : 'losses']: admin.firestore.FieldValue.increment(1),
-      timestamp: admin.firestore.FieldValue.serverTimestamp(),
-      profileImage: profileImage  // Store profile image URL
-    };
-    
-    if (isWin) {
-      update[`${difficulty}Wins`] = admin.firestore.FieldValue.increment(1);
+    const recorded = await statsRepository.recordGame(gameId, game, profileImage);
+    if (!recorded) {
+      logger.warn('Game was already recorded, ignoring replay', { gameId, playerFid: fid });
+      return { badges: [], heldForReview: false };
     }
-    
-    await userRef.set(update, { merge: true });
+    await countStoredGame(game);
+    await updateStoredPODScore(fid);
+    return { badges: await checkAchievements(fid, game), heldForReview: false };
   } catch (error) {
-    console.error(`Error updating user record for FID ${fid}:`, error);
+    logger.error('Error recording game result', { playerFid: fid, error });
+    return { badges: [], heldForReview: false };
   }
 }
 
-// Function to get recent players with their profile images
-async function getRecentPlayers(limit: number = 8): Promise<Array<{fid: string, profileImage: string | null}>> {
-  try {
-    const database = getDb();
-    const usersSnapshot = await database.collection('users')
-      .orderBy('timestamp', 'desc')
-      .limit(limit)
-      .get();
-
-    const playerPromises = usersSnapshot.docs.map(async (doc) => {
-      const fid = doc.id;
-      // Fetch profile image directly from Airstack instead of using stored data
-      const profileImage = await getUserProfilePicture(fid);
-      return { fid, profileImage };
-    });
+// Unfinished CPU games left alone this long count as a loss
+const GAME_FORFEIT_MINUTES = Number(process.env.GAME_FORFEIT_MINUTES) || 60;
 
-    const players = await Promise.all(playerPromises);
-    return players.filter(player => player.profileImage !== null);
-  } catch (error) {
-    console.error('Error getting recent players:', error);
-    return [];
+// Thrown when a button refers to a game session that finished, expired or never existed.
+// The message is shown to the player.
+class GameSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GameSessionError';
   }
 }
 
-async function getTotalPlayers(): Promise<number> {
-  try {
-    const database = getDb();
-    const snapshot = await database.collection('users').count().get();
-    return snapshot.data().count;
-  } catch (error) {
-    console.error('Error getting total player count:', error);
-    return 0;
+function sessionTimes(): Pick<GameSession, 'updatedAt' | 'expiresAt'> {
+  const updatedAt = new Date();
+  return { updatedAt, expiresAt: new Date(updatedAt.getTime() + GAME_FORFEIT_MINUTES * 60 * 1000) };
+}
+
+// Stores an unfinished game for the next request, or drops the session once the game is over
+async function saveGameSession(state: GameState): Promise<void> {
+  if (state.isGameOver) {
+    await statsRepository.deleteSession(state.gameId);
+    return;
   }
+  await statsRepository.saveSession({
+    id: state.gameId,
+    fid: state.fid ? state.fid.toString() : null,
+    state,
+    ...sessionTimes(),
+  });
 }
 
-// Update the initial routes
-app.frame('/', async (c) => {
-  const timestamp = c.req.query('t') || Date.now().toString();
-  const gifUrl = 'https://bafybeidnv5uh2ne54dlzyummobyv3bmc7uzuyt5htodvy27toqqhijf4xu.ipfs.w3s.link/PodPlay.gif';
-  
-  const totalPlayers = await getTotalPlayers();
-  
-  const [profileImage1, profileImage2] = await Promise.all([
-    getUserProfilePicture('7472'),
-    getUserProfilePicture('14871')
+async function saveUltimateSession(state: UltimateState): Promise<void> {
+  if (replayUltimate(state.moves).result) {
+    await statsRepository.deleteSession(state.gameId);
+    return;
+  }
+  await statsRepository.saveSession({
+    mode: 'ultimate',
+    id: state.gameId,
+    fid: state.fid ? state.fid.toString() : null,
+    state,
+    ...sessionTimes(),
+  });
+}
+
+// Whether the player made a move, not just the CPU's opening one
+function hasPlayerMoved(session: GameSession): boolean {
+  const openingMoves = session.mode !== 'ultimate' && !session.state.playerFirst ? 1 : 0;
+  return session.state.moves.length > openingMoves;
+}
+
+// Records an abandoned game as a loss for its player and removes the session. A game the player
+// never moved in is removed without a result. Resolves true if the game counted as a forfeit.
+async function forfeitSession(session: GameSession): Promise<boolean> {
+  if (!hasPlayerMoved(session)) {
+    await statsRepository.deleteSession(session.id);
+    logger.info('Unplayed game dropped', { gameId: session.id, playerFid: session.fid });
+    return false;
+  }
+  if (session.fid) {
+    const { state } = session;
+    const forfeit = {
+      fid: session.fid,
+      difficulty: state.difficulty,
+      forfeited: true,
+      moves: state.moves,
+      result: 'lose' as const,
+      startedAt: new Date(state.startedAt),
+      endedAt: session.expiresAt,
+    };
+    await recordGameResult(state.gameId, session.mode === 'ultimate'
+      ? { ...forfeit, variant: 'ultimate', board: replayUltimate(state.moves).cells }
+      : {
+          ...forfeit,
+          variant: session.state.variant,
+          playerMark: session.state.playerMark,
+          playerFirst: session.state.playerFirst,
+          hintsUsed: session.state.hintsUsed,
+          board: session.state.board,
+        });
+  }
+  await statsRepository.deleteSession(session.id);
+  logger.info('Game forfeited', { gameId: session.id, playerFid: session.fid });
+  return true;
+}
+
+// The session a button refers to. Expired sessions are forfeited on the way.
+async function loadSession(sessionId: string, fid: number | undefined): Promise<GameSession> {
+  const session = await statsRepository.getSession(sessionId);
+  if (!session) {
+    throw new GameSessionError('This game has already ended. Please start a new game.');
+  }
+  if (session.state.fid !== fid) {
+    throw new InvalidGameStateError(`Game belongs to FID ${session.state.fid}, not ${fid}`);
+  }
+  if (session.expiresAt.getTime() <= Date.now()) {
+    const forfeited = await forfeitSession(session);
+    throw new GameSessionError(forfeited
+      ? `This game was left for over ${GAME_FORFEIT_MINUTES} minutes and counted as a forfeit.`
+      : `This game was left for over ${GAME_FORFEIT_MINUTES} minutes without a move and has ended.`);
+  }
+  return session;
+}
+
+async function loadGameSession(sessionId: string, fid: number | undefined): Promise<GameState> {
+  const session = await loadSession(sessionId, fid);
+  if (session.mode === 'ultimate') {
+    throw new InvalidGameStateError(`Game ${sessionId} is an ultimate game`);
+  }
+  return session.state;
+}
+
+async function loadUltimateSession(sessionId: string, fid: number | undefined): Promise<UltimateState> {
+  const session = await loadSession(sessionId, fid);
+  if (session.mode !== 'ultimate') {
+    throw new InvalidGameStateError(`Game ${sessionId} is not an ultimate game`);
+  }
+  return session.state;
+}
+
+// The player's unfinished game if it can still be resumed. An expired one is forfeited instead.
+async function getResumableSession(fid: number | undefined): Promise<GameSession | null> {
+  if (!fid) return null;
+  try {
+    const session = await statsRepository.getPlayerSession(fid.toString());
+    if (session && session.expiresAt.getTime() <= Date.now()) {
+      await forfeitSession(session);
+      return null;
+    }
+    return session;
+  } catch (error) {
+    logger.error('Error getting game session', { playerFid: fid, error });
+    return null;
+  }
+}
+
+// Forfeits every expired session, including players who never came back. Returns how many counted as a forfeit.
+export async function forfeitExpiredSessions(now: Date = new Date(), batchSize: number = 100): Promise<number> {
+  let forfeited = 0;
+  let batch = await statsRepository.getExpiredSessions(now, batchSize);
+  while (batch.length > 0) {
+    for (const session of batch) {
+      if (await forfeitSession(session)) forfeited++;
+    }
+    batch = await statsRepository.getExpiredSessions(now, batchSize);
+  }
+  return forfeited;
+}
+
+type BadgeContext = {
+  record: UserRecord;  // Already includes the game that just ended
+  game: GameRecord;
+}
+
+const BADGES: Record<BadgeId, { name: string, icon: string, description: string, isUnlocked: (context: BadgeContext) => boolean }> = {
+  'first-hard-win': {
+    name: 'Hard Hitter',
+    icon: '🔴',
+    description: 'Won a game on hard',
+    isUnlocked: ({ record }) => record.hardWins >= 1,
+  },
+  'win-streak-10': {
+    name: 'On Fire',
+    icon: '🔥',
+    description: 'Won 10 classic games in a row',
+    isUnlocked: ({ record }) => record.currentStreak >= 10,
+  },
+  'games-100': {
+    name: 'Centurion',
+    icon: '💯',
+    description: 'Played 100 classic games',
+    isUnlocked: ({ record }) => record.wins + record.losses + record.ties >= 100,
+  },
+  'no-blocks-win': {
+    name: 'Untouchable',
+    icon: '🎯',
+    description: 'Beat the CPU without it ever blocking you',
+    isUnlocked: ({ game }) => {
+      const variant = game.variant || 'classic';
+      const seat = { playerMark: game.playerMark || 'O', playerFirst: game.playerFirst ?? true };
+      return game.result === 'win' && variant !== 'ultimate' && VARIANTS[variant].rules === 'standard' && !cpuEverBlocked(game.moves, variant, seat);
+    },
+  },
+  'pod-holder': {
+    name: 'Pod Member',
+    icon: '💎',
+    description: 'Holds /thepod fan tokens',
+    isUnlocked: ({ record }) => (record.tokenBalance || 0) > 0,
+  },
+};
+
+function badgeShareUrl(fid: string, badgeId: BadgeId): string {
+  const badge = BADGES[badgeId];
+  return composeCastUrl(`I unlocked the ${badge.icon} ${badge.name} badge in Tic-Tac-Maxi! ${config.credits}`, appUrl(`/badge/${fid}/${badgeId}`));
+}
+
+// True if any CPU move filled the last gap in a line the player was one mark away from completing
+function cpuEverBlocked(moves: number[], variant: Variant = 'classic', seat: Seat = DEFAULT_SEAT): boolean {
+  const { size, winLength } = VARIANTS[variant];
+  const board: (string | null)[] = Array(size * size).fill(null);
+  return moves.some((move, ply) => {
+    const isCpuMove = (ply % 2 === 0) !== seat.playerFirst;
+    const blocked = isCpuMove && getWinLines(variant).some(line =>
+      line.includes(move) && line.filter(index => board[index] === seat.playerMark).length === winLength - 1
+    );
+    board[move] = isCpuMove ? otherMark(seat.playerMark) : seat.playerMark;
+    return blocked;
+  });
+}
+
+// Checks every rule once a game has been recorded and stores the newly unlocked badges
+async function checkAchievements(fid: string, game: GameRecord): Promise<BadgeId[]> {
+  try {
+    const record = await getUserRecord(fid);
+    const unlocked = (Object.keys(BADGES) as BadgeId[]).filter(id =>
+      !record.badges?.[id] && BADGES[id].isUnlocked({ record, game })
+    );
+    if (unlocked.length > 0) {
+      await statsRepository.unlockBadges(fid, unlocked, new Date());
+      logger.info('Badges unlocked', { playerFid: fid, badges: unlocked });
+    }
+    return unlocked;
+  } catch (error) {
+    logger.error('Error checking achievements', { playerFid: fid, error });
+    return [];
+  }
+}
+
+// Keeps `podScore` on the user document current so leaderboards can be served from an index.
+// The token balance is only known after an Airstack lookup, so otherwise the last stored one is reused.
+async function updateStoredPODScore(fid: string, tokenBalance?: number) {
+  try {
+    const record = { ...emptyUserRecord(), ...await statsRepository.getUserRecord(fid) };
+    // Scored without a token bonus while the balance is unknown, which is never stored as 0
+    const podScore = calculatePODScore(record, tokenBalance ?? record.tokenBalance ?? 0);
+    await statsRepository.updateScore(fid, podScore, activeScoringConfig.version, tokenBalance);
+  } catch (error) {
+    logger.error('Error updating stored POD Score', { playerFid: fid, error });
+  }
+}
+
+type ScoreChange = {
+  fid: string;
+  oldScore: number | null;
+  newScore: number;
+  oldVersion: string | null;
+  oldRank: number | null;  // Null for players without a stored score
+  newRank: number;
+}
+
+// Highest score first, ties keep the lower FID ahead so ranks are stable between runs
+function rankScores(scores: Map<string, number>): Map<string, number> {
+  const ordered = [...scores].sort(([fidA, a], [fidB, b]) => b - a || Number(fidA) - Number(fidB));
+  return new Map(ordered.map(([fid], index) => [fid, index + 1]));
+}
+
+// Recomputes every stored POD Score under `config` from the stored counters and last known
+// token balance. With `dryRun` nothing is written, the returned changes show what would move.
+export async function recomputePODScores(config: ScoringConfig, dryRun: boolean): Promise<ScoreChange[]> {
+  const records = await statsRepository.getAllUserRecords();
+  const oldScores = new Map<string, number>();
+  const newScores = new Map<string, number>();
+  for (const [fid, record] of records) {
+    if (record.podScore !== undefined) oldScores.set(fid, record.podScore);
+    newScores.set(fid, calculatePODScore(record, record.tokenBalance ?? 0, config));
+  }
+
+  const oldRanks = rankScores(oldScores);
+  const newRanks = rankScores(newScores);
+  const changes = [...records].map(([fid, record]): ScoreChange => ({
+    fid,
+    oldScore: record.podScore ?? null,
+    newScore: newScores.get(fid)!,
+    oldVersion: record.podScoreVersion ?? null,
+    oldRank: oldRanks.get(fid) ?? null,
+    newRank: newRanks.get(fid)!,
+  })).sort((a, b) => a.newRank - b.newRank);
+
+  if (!dryRun) {
+    for (const change of changes) {
+      await statsRepository.updateScore(change.fid, change.newScore, config.version, records.get(change.fid)!.tokenBalance);
+    }
+  }
+  return changes;
+}
+
+type LeaderboardTab = 'overall' | 'easy' | 'medium' | 'hard';
+
+const LEADERBOARD_TABS: Record<LeaderboardTab, { field: RankedField, label: string, button: string }> = {
+  overall: { field: 'podScore', label: 'POD Score', button: 'Overall 🏆' },
+  easy: { field: 'easyWins', label: 'Easy Wins', button: 'Easy 🟢' },
+  medium: { field: 'mediumWins', label: 'Medium Wins', button: 'Medium 🟡' },
+  hard: { field: 'hardWins', label: 'Hard Wins', button: 'Hard 🔴' },
+};
+
+async function getLeaderboard(tab: LeaderboardTab, limit: number): Promise<LeaderboardEntry[]> {
+  const { field } = LEADERBOARD_TABS[tab];
+  try {
+    return await statsRepository.getTopPlayers(field, limit);
+  } catch (error) {
+    logger.error('Error getting leaderboard', { tab, error });
+    return [];
+  }
+}
+
+// Rank is one more than the number of players strictly ahead, so ties share a rank
+async function getPlayerRank(fid: string, tab: LeaderboardTab): Promise<{ rank: number, value: number } | null> {
+  const { field } = LEADERBOARD_TABS[tab];
+  try {
+    const value = (await statsRepository.getUserRecord(fid))?.[field];
+    if (typeof value !== 'number') {
+      return null;
+    }
+    const ahead = await statsRepository.countPlayersAbove(field, value);
+    return { rank: ahead + 1, value };
+  } catch (error) {
+    logger.error('Error getting leaderboard rank', { tab, playerFid: fid, error });
+    return null;
+  }
+}
+
+// Function to get recent players with their profile images
+async function getRecentPlayers(limit: number = 8): Promise<Array<{fid: string, profileImage: string | null}>> {
+  try {
+    const fids = await statsRepository.getRecentPlayerFids(limit);
+
+    // Fetch profile images from Airstack in one batch instead of using stored data
+    const profiles = await getProfiles(fids);
+    const players = fids.map(fid => ({ fid, profileImage: profiles.get(fid)!.profileImage }));
+    return players.filter(player => player.profileImage !== null);
+  } catch (error) {
+    logger.error('Error getting recent players', { error });
+    return [];
+  }
+}
+
+async function getTotalPlayers(): Promise<number> {
+  try {
+    return await statsRepository.countPlayers();
+  } catch (error) {
+    logger.error('Error getting total player count', { error });
+    return 0;
+  }
+}
+
+// Update the initial routes
+app.frame('/', async (c) => {
+  const timestamp = c.req.query('t') || Date.now().toString();
+  const [totalPlayers, featuredProfiles] = await Promise.all([
+    getTotalPlayers(),
+    getProfiles(config.featuredFids)
   ]);
 
-  const displayTotal = totalPlayers - 2;
+  // The featured players already appear as avatars, so they aren't counted again
+  const displayTotal = Math.max(0, totalPlayers - config.featuredFids.length);
 
   // Add timestamp to the image URL
-  const imageUrl = `${gifUrl}?t=${timestamp}`;
+  const imageUrl = `${config.assets.logoGif}?t=${timestamp}`;
 
   return c.res({
     image: (
@@ -549,29 +1301,21 @@ app.frame('/', async (c) => {
             display: 'flex',
             alignItems: 'center',
           }}>
-            <img 
-              src={profileImage1 || ''}
-              alt=""
-              style={{
-                width: '48px',
-                height: '48px',
-                borderRadius: '50%',
-                border: '3px solid white',
-                zIndex: 2
-              }}
-            />
-            <img 
-              src={profileImage2 || ''}
-              alt=""
-              style={{
-                width: '48px',
-                height: '48px',
-                borderRadius: '50%',
-                border: '3px solid white',
-                marginLeft: '-16px',
-                zIndex: 1
-              }}
-            />
+            {config.featuredFids.map((fid, i) => (
+              <img 
+                key={fid}
+                src={featuredProfiles.get(fid)?.profileImage || ''}
+                alt=""
+                style={{
+                  width: '48px',
+                  height: '48px',
+                  borderRadius: '50%',
+                  border: '3px solid white',
+                  marginLeft: i === 0 ? '0' : '-16px',
+                  zIndex: config.featuredFids.length - i
+                }}
+              />
+            ))}
           </div>
           <span style={{ 
             fontSize: '32px',
@@ -589,40 +1333,59 @@ app.frame('/', async (c) => {
   });
 });
 
-function shuffleArray<T>(array: T[]): T[] {
+type Rng = () => number;
+
+// mulberry32: small, fast and good enough for shuffling buttons and CPU coin flips
+function createRng(seed: number): Rng {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6D2B79F5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), t | 1);
+    r ^= r + Math.imul(r ^ (r >>> 7), r | 61);
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Every ply gets its own generator so a game can be replayed from its seed and move list
+// without storing RNG state. `stream` keeps the CPU, button-order and hint draws independent.
+export function rngForTurn(seed: number, ply: number, stream: 'cpu' | 'buttons' | 'hint' = 'cpu'): Rng {
+  const streamSalt = { cpu: 0, buttons: 0x5BD1E995, hint: 0x27D4EB2F }[stream];
+  return createRng((seed ^ Math.imul(ply + 1, 0x9E3779B1) ^ streamSalt) >>> 0);
+}
+
+function createSeed(): number {
+  return randomBytes(4).readUInt32LE(0);
+}
+
+function shuffleArray<T>(array: T[], rng: Rng): T[] {
   for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [array[i], array[j]] = [array[j], array[i]];
   }
   return array;
 }
 
-// Add this function before the app.frame('/game', ...) definition
-
-function checkWin(board: (string | null)[]): boolean {
-  const winPatterns = [
-    [0, 1, 2], [3, 4, 5], [6, 7, 8], // Rows
-    [0, 3, 6], [1, 4, 7], [2, 5, 8], // Columns
-    [0, 4, 8], [2, 4, 6] // Diagonals
-  ];
+// The player's result once a move completes a line. The side that made it wins, except under misère.
+function lineResult(playerMadeLine: boolean, variant: Variant): 'win' | 'lose' {
+  return playerMadeLine === (VARIANTS[variant].rules !== 'misere') ? 'win' : 'lose';
+}
 
-  return winPatterns.some(pattern =>
-    board[pattern[0]] &&
-    board[pattern[0]] === board[pattern[1]] &&
-    board[pattern[0]] === board[pattern[2]]
-  );
+// The middle cell of an odd board, or the middle four of an even one
+function getCentreCells(size: number): number[] {
+  const middle = [...new Set([Math.floor((size - 1) / 2), Math.ceil((size - 1) / 2)])];
+  return middle.flatMap(row => middle.map(col => row * size + col));
 }
 
 // Update the getBestMove function to use checkWin
-function getBestMove(board: (string | null)[], player: string): number {
+function getBestMove(board: (string | null)[], player: string, rng: Rng, variant: Variant = 'classic'): number {
   const opponent = player === 'X' ? 'O' : 'X';
 
-  if (Math.random() < 0.2) {
+  if (rng() < 0.2) {
     const availableMoves = board.reduce((acc, cell, index) => {
       if (cell === null) acc.push(index);
       return acc;
     }, [] as number[]);
-    return availableMoves[Math.floor(Math.random() * availableMoves.length)];
+    return availableMoves[Math.floor(rng() * availableMoves.length)];
   }
 
   if (board.filter(cell => cell !== null).length === 1) {
@@ -630,13 +1393,29 @@ function getBestMove(board: (string | null)[], player: string): number {
       if (cell === null) acc.push(index);
       return acc;
     }, [] as number[]);
-    return availableMoves[Math.floor(Math.random() * availableMoves.length)];
+    return availableMoves[Math.floor(rng() * availableMoves.length)];
+  }
+
+  if (VARIANTS[variant].rules === 'misere') {
+    // Completing a line loses, so play anywhere that doesn't
+    const availableMoves = board.reduce((acc, cell, index) => {
+      if (cell === null) acc.push(index);
+      return acc;
+    }, [] as number[]);
+    const safeMoves = availableMoves.filter(index => {
+      board[index] = player;
+      const safe = !checkWin(board, variant);
+      board[index] = null;
+      return safe;
+    });
+    const choices = safeMoves.length > 0 ? safeMoves : availableMoves;
+    return choices[Math.floor(rng() * choices.length)];
   }
 
-  for (let i = 0; i < 9; i++) {
+  for (let i = 0; i < board.length; i++) {
     if (board[i] === null) {
       board[i] = player;
-      if (checkWin(board)) {
+      if (checkWin(board, variant)) {
         board[i] = null;
         return i;
       }
@@ -644,10 +1423,10 @@ function getBestMove(board: (string | null)[], player: string): number {
     }
   }
 
-  for (let i = 0; i < 9; i++) {
+  for (let i = 0; i < board.length; i++) {
     if (board[i] === null) {
       board[i] = opponent;
-      if (checkWin(board)) {
+      if (checkWin(board, variant)) {
         board[i] = null;
         return i;
       }
@@ -655,49 +1434,420 @@ function getBestMove(board: (string | null)[], player: string): number {
     }
   }
 
-  if (board[4] === null && Math.random() < 0.7) return 4;
+  const openCentre = getCentreCells(VARIANTS[variant].size).filter(index => board[index] === null);
+  if (openCentre.length > 0 && rng() < 0.7) return openCentre[Math.floor(rng() * openCentre.length)];
 
   const availableMoves = board.reduce((acc, cell, index) => {
     if (cell === null) acc.push(index);
     return acc;
   }, [] as number[]);
-  return availableMoves[Math.floor(Math.random() * availableMoves.length)];
+  return availableMoves[Math.floor(rng() * availableMoves.length)];
 }
 
-function encodeState(state: GameState): string {
-  return Buffer.from(JSON.stringify(state)).toString('base64');
+function signPayload(payload: string): string {
+  return createHmac('sha256', GAME_STATE_SECRET).update(payload).digest('base64url');
 }
 
-function decodeState(encodedState: string): GameState {
-  const decoded = JSON.parse(Buffer.from(encodedState, 'base64').toString());
-  // Ensure difficulty exists in decoded state
-  return {
-    ...decoded,
-    difficulty: decoded.difficulty || 'medium' // Default to medium if not specified
+function createGameId(): string {
+  return randomBytes(9).toString('base64url');
+}
+
+// What a signed value holds, so one signed for a share link can't be handed back as a puzzle and so on
+export type SignedKind = 'game' | 'daily' | 'stats';
+
+// State is sent as `<payload>.<signature>` so it can't be edited between requests
+export function signState(kind: SignedKind, value: object): string {
+  const payload = Buffer.from(JSON.stringify({ kind, value })).toString('base64url');
+  return `${payload}.${signPayload(payload)}`;
+}
+
+// The signed value if it was signed as `kind`. Callers still check its shape before trusting it.
+export function verifySignedState(token: string, kind: SignedKind): unknown {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    throw new InvalidGameStateError('Game state is not signed');
+  }
+
+  const expected = Buffer.from(signPayload(payload));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw new InvalidGameStateError('Game state signature does not match');
+  }
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    throw new InvalidGameStateError('Signed payload is not JSON');
+  }
+  if (!isRecord(decoded) || decoded.kind !== kind) {
+    throw new InvalidGameStateError(`Signed value is not a ${kind} state`);
+  }
+  return decoded.value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOneOf<T>(value: unknown, allowed: readonly T[]): value is T {
+  return (allowed as readonly unknown[]).includes(value);
+}
+
+function isIntegerList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(item => Number.isInteger(item));
+}
+
+export function encodeState(state: GameState): string {
+  return signState('game', state);
+}
+
+// The numbers on a shared stats card, signed when /share renders so the link can't be edited
+type SharedStats = {
+  fid: string | null;
+  username: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  games: number;
+  tokens: number | null;  // Only a live balance is shared
+  tokenSource: FanTokenBalance['source'];
+  score: number;
+  verifiedAt: number;  // ms since epoch
+}
+
+function verifySharedStats(token: string): SharedStats {
+  const stats = verifySignedState(token, 'stats');
+  if (!isRecord(stats)) {
+    throw new InvalidGameStateError('Signed value is not a stats snapshot');
+  }
+  const { fid, username, wins, losses, ties, games, tokens, tokenSource, score, verifiedAt } = stats;
+  if ((fid !== null && typeof fid !== 'string') || typeof username !== 'string'
+    || typeof wins !== 'number' || typeof losses !== 'number' || typeof ties !== 'number' || typeof games !== 'number'
+    || typeof score !== 'number' || typeof verifiedAt !== 'number'
+    || !isOneOf(tokenSource, ['live', 'last-known', 'unknown'] as const)
+    || (tokens !== null && typeof tokens !== 'number') || (tokenSource === 'live') !== (tokens !== null)) {
+    throw new InvalidGameStateError('Signed value is not a stats snapshot');
+  }
+  return { fid, username, wins, losses, ties, games, tokens, tokenSource, score, verifiedAt };
+}
+
+// Older share links left out the fields that had defaults at the time
+export function decodeState(encodedState: string): GameState {
+  const decoded = verifySignedState(encodedState, 'game');
+  if (!isRecord(decoded)) {
+    throw new InvalidGameStateError('Signed value is not a game state');
+  }
+  const {
+    board, isGameOver, gameId, fid, seed, moves, startedAt,
+    difficulty = 'medium', variant = 'classic', turnOrder = 'first', hintsUsed = 0,
+    playerMark = DEFAULT_SEAT.playerMark, playerFirst = DEFAULT_SEAT.playerFirst,
+  } = decoded;
+  if (!isOneOf(difficulty, DIFFICULTIES) || !isOneOf(variant, Object.keys(VARIANTS) as Variant[])
+    || !isOneOf(turnOrder, ['first', 'second', 'alternate'] as const) || !isOneOf(playerMark, ['O', 'X'] as const)
+    || typeof playerFirst !== 'boolean' || typeof hintsUsed !== 'number' || typeof isGameOver !== 'boolean'
+    || !Array.isArray(board) || !isIntegerList(moves) || typeof gameId !== 'string'
+    || typeof seed !== 'number' || typeof startedAt !== 'number' || (fid !== undefined && typeof fid !== 'number')) {
+    throw new InvalidGameStateError('Signed value is not a game state');
+  }
+  const state: GameState = {
+    board, currentPlayer: playerMark, isGameOver, difficulty, variant, turnOrder, hintsUsed,
+    gameId, fid, seed, moves, startedAt, playerMark, playerFirst,
   };
+  assertValidPosition(state);
+  return state;
+}
+
+function countMarks(board: (string | null)[], player: 'O' | 'X'): number {
+  return board.filter(cell => cell === player).length;
+}
+
+function otherMark(mark: 'O' | 'X'): 'O' | 'X' {
+  return mark === 'O' ? 'X' : 'O';
+}
+
+// The player and CPU take turns from whoever opened, so a signed position can only ever have
+// equal marks or one extra of the opener's mark. Mid-game it is always the player's turn.
+function assertValidPosition(state: GameState) {
+  const { board } = state;
+  if (!Object.hasOwn(VARIANTS, state.variant)) {
+    throw new InvalidGameStateError(`Unknown variant: ${state.variant}`);
+  }
+  const { size } = VARIANTS[state.variant];
+  if (!Array.isArray(board) || board.length !== size * size || board.some(cell => cell !== null && cell !== 'O' && cell !== 'X')) {
+    throw new InvalidGameStateError('Board is malformed');
+  }
+  if (!DIFFICULTIES.includes(state.difficulty)) {
+    throw new InvalidGameStateError(`Unknown difficulty: ${state.difficulty}`);
+  }
+  if ((state.playerMark !== 'O' && state.playerMark !== 'X') || typeof state.playerFirst !== 'boolean') {
+    throw new InvalidGameStateError('Player mark or turn order is missing');
+  }
+  if (!Number.isInteger(state.hintsUsed) || state.hintsUsed < 0 || state.hintsUsed > HINTS_PER_GAME) {
+    throw new InvalidGameStateError(`Hint count out of range: ${state.hintsUsed}`);
+  }
+  if (typeof state.gameId !== 'string' || state.gameId.length === 0) {
+    throw new InvalidGameStateError('Game ID is missing');
+  }
+
+  const isFinished = checkWin(board, state.variant) || board.every(cell => cell !== null);
+  // Wild boards can hold any mix of marks, the replay below checks their turn order instead
+  if (VARIANTS[state.variant].rules !== 'wild') {
+    const openerMark = state.playerFirst ? state.playerMark : otherMark(state.playerMark);
+    const extraMoves = countMarks(board, openerMark) - countMarks(board, otherMark(openerMark));
+    if (extraMoves < 0 || extraMoves > 1 || (!isFinished && extraMoves !== (state.playerFirst ? 0 : 1))) {
+      throw new InvalidGameStateError('Board does not alternate between player and CPU');
+    }
+  }
+  if (isFinished !== state.isGameOver) {
+    throw new InvalidGameStateError('Game over flag does not match the board');
+  }
+
+  if (!Number.isInteger(state.seed) || !Array.isArray(state.moves)) {
+    throw new InvalidGameStateError('Seed or move list is missing');
+  }
+  const replay = replayGame(state.seed, state.difficulty, state.moves, board, state.variant, state);
+  if (!replay.matches) {
+    throw new InvalidGameStateError(replay.error || 'Board does not match its move history');
+  }
+}
+
+type ReplayResult = {
+  board: (string | null)[];
+  result: 'win' | 'lose' | 'draw' | null;
+  matches: boolean;
+  error?: string;
+}
+
+// Rebuilds a CPU game from its seed and move list. Player moves are taken as recorded,
+// CPU moves are recomputed and must come out the same, and the final board must equal `expectedBoard`.
+// Under wild rules each move's mark is read from `expectedBoard`, since cells never change once played.
+export function replayGame(
+  seed: number, difficulty: Difficulty, moves: number[], expectedBoard: (string | null)[],
+  variant: Variant = 'classic', seat: Seat = DEFAULT_SEAT
+): ReplayResult {
+  const cpuMark = otherMark(seat.playerMark);
+  const { size } = VARIANTS[variant];
+  const coordinates = getCoordinates(size);
+  const board: (string | null)[] = Array(size * size).fill(null);
+  let result: ReplayResult['result'] = null;
+  const fail = (error: string): ReplayResult => ({ board, result, matches: false, error });
+
+  for (let ply = 0; ply < moves.length; ply++) {
+    const move = moves[ply];
+    if (result) {
+      return fail(`Move ${ply + 1} was played after the game ended`);
+    }
+    if (!Number.isInteger(move) || move < 0 || move >= board.length || board[move] !== null) {
+      return fail(`Move ${ply + 1} is not a legal move: ${move}`);
+    }
+
+    const isPlayerMove = (ply % 2 === 0) === seat.playerFirst;
+    const mark = VARIANTS[variant].rules === 'wild' ? expectedBoard[move] : isPlayerMove ? seat.playerMark : cpuMark;
+    if (mark !== 'O' && mark !== 'X') {
+      return fail(`Move ${ply + 1} has no mark on the final board`);
+    }
+    if (!isPlayerMove) {
+      const expectedMove = getCPUMove(board, difficulty, rngForTurn(seed, ply), variant, cpuMark);
+      if (expectedMove.index !== move || expectedMove.mark !== mark) {
+        return fail(`CPU move ${ply + 1} was ${mark} at ${coordinates[move]} but replays as ${expectedMove.mark} at ${coordinates[expectedMove.index]}`);
+      }
+    }
+
+    board[move] = mark;
+    if (checkWin(board, variant)) {
+      result = lineResult(isPlayerMove, variant);
+    } else if (board.every(cell => cell !== null)) {
+      result = 'draw';
+    }
+  }
+
+  if (board.some((cell, index) => cell !== expectedBoard[index])) {
+    return fail('Replayed board does not match the final board');
+  }
+  return { board, result, matches: true };
+}
+
+// Rows are labelled from A and columns from 1 so typed coordinates match getCoordinates.
+// Cells shrink with the board size so every variant fits the same 640px grid.
+function renderBoardCell(board: (string | null)[], index: number, cellSize: number) {
+  return (
+    <div key={index} style={{
+      width: `${cellSize}px`,
+      height: `${cellSize}px`,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      fontSize: `${Math.round(cellSize * 0.6)}px`,
+      background: 'linear-gradient(135deg, #0F0F2F 0%, #303095 100%)',
+      border: '4px solid black',
+    }}>
+      {board[index]}
+    </div>
+  );
+}
+
+// Shows the hinted mark in gold on its empty cell, every other cell renders as usual
+function renderHintCell(hint: MarkedMove): typeof renderBoardCell {
+  return (board, index, cellSize) => index !== hint.index ? renderBoardCell(board, index, cellSize) : (
+    <div key={index} style={{
+      width: `${cellSize}px`,
+      height: `${cellSize}px`,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      fontSize: `${Math.round(cellSize * 0.6)}px`,
+      color: '#FFD700',
+      background: 'linear-gradient(135deg, #0F0F2F 0%, #303095 100%)',
+      border: '4px solid #FFD700',
+    }}>
+      {hint.mark}
+    </div>
+  );
 }
 
-function renderBoard(board: (string | null)[]) {
+// Draws the labelled grid, `renderCell` fills each square so nested boards can reuse the layout
+function renderBoard(board: (string | null)[], renderCell: typeof renderBoardCell = renderBoardCell) {
+  const size = Math.sqrt(board.length);
+  const cells = [...Array(size).keys()];
+  const cellSize = Math.floor((640 - 20 * (size - 1)) / size);
+  const labelStyle = {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    fontSize: '40px',
+    color: 'white',
+  };
+
   return (
     <div style={{
       display: 'flex',
       flexDirection: 'column',
       gap: '20px',
     }}>
-      {[0, 1, 2].map(row => (
+      <div style={{ display: 'flex', gap: '20px' }}>
+        <div style={{ ...labelStyle, width: '50px', height: '50px' }} />
+        {cells.map(col => (
+          <div key={col} style={{ ...labelStyle, width: `${cellSize}px`, height: '50px' }}>
+            {col + 1}
+          </div>
+        ))}
+      </div>
+      {cells.map(row => (
         <div key={row} style={{ display: 'flex', gap: '20px' }}>
-          {[0, 1, 2].map(col => {
-            const index = row * 3 + col;
+          <div style={{ ...labelStyle, width: '50px', height: `${cellSize}px` }}>
+            {String.fromCharCode(65 + row)}
+          </div>
+          {cells.map(col => renderCell(board, row * size + col, cellSize))}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+const WIN_SCORE = 1000;
+
+// Open lines are worth the square of the marks already in them, positive for `player` and negative
+// for the opponent. Stays well below WIN_SCORE so a real win always outranks a good-looking position.
+function evaluatePosition(board: (string | null)[], player: string, variant: Variant): number {
+  let score = 0;
+  for (const line of getWinLines(variant)) {
+    const own = line.filter(index => board[index] === player).length;
+    const other = line.filter(index => board[index] !== null && board[index] !== player).length;
+    if (other === 0) score += own * own;
+    else if (own === 0) score -= other * other;
+  }
+  return score;
+}
+
+// Alpha-beta search scored from `player`'s point of view.
+// Quicker wins and slower losses score higher so the CPU doesn't toy with the player.
+// Past the variant's search depth the position is estimated instead of played out.
+function minimax(board: (string | null)[], player: string, toMove: string, depth: number, alpha: number, beta: number, variant: Variant = 'classic'): number {
+  if (checkWin(board, variant)) {
+    // The side that just moved made the line, which loses under misère
+    const playerWins = (toMove !== player) === (VARIANTS[variant].rules !== 'misere');
+    return playerWins ? WIN_SCORE - depth : depth - WIN_SCORE;
+  }
+  if (board.every(cell => cell !== null)) {
+    return 0;
+  }
+  if (depth >= VARIANTS[variant].searchDepth) {
+    return evaluatePosition(board, player, variant);
+  }
+
+  const next = toMove === 'X' ? 'O' : 'X';
+  const maximizing = toMove === player;
+  let best = maximizing ? -Infinity : Infinity;
+
+  for (let i = 0; i < board.length; i++) {
+    if (board[i] !== null) continue;
+    board[i] = toMove;
+    const score = minimax(board, player, next, depth + 1, alpha, beta, variant);
+    board[i] = null;
+
+    if (maximizing) {
+      best = Math.max(best, score);
+      alpha = Math.max(alpha, score);
+    } else {
+      best = Math.min(best, score);
+      beta = Math.min(beta, score);
+    }
+    if (beta <= alpha) break;
+  }
+  return best;
+}
+
+// Scores every move (exactly on the classic board, to the variant's search depth otherwise) and picks randomly among the best ones so games stay varied
+function getPerfectMove(board: (string | null)[], player: string, rng: Rng, variant: Variant = 'classic'): number {
+  const opponent = player === 'X' ? 'O' : 'X';
+  let bestScore = -Infinity;
+  let bestMoves: number[] = [];
+
+  for (let i = 0; i < board.length; i++) {
+    if (board[i] !== null) continue;
+    board[i] = player;
+    const score = minimax(board, player, opponent, 1, -Infinity, Infinity, variant);
+    board[i] = null;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestMoves = [i];
+    } else if (score === bestScore) {
+      bestMoves.push(i);
+    }
+  }
+
+  return bestMoves[Math.floor(rng() * bestMoves.length)];
+}
+
+// Small unlabelled board for lists such as /history
+// Ultimate boards are stored small board by small board (board * 9 + cell), so `nested` maps each
+// screen row and column back to that order and leaves a wider gap between the small boards
+function renderMiniBoard(board: (string | null)[], cellSize: number = 50, nested: boolean = false) {
+  const size = Math.sqrt(board.length);
+  const cells = [...Array(size).keys()];
+  const cellIndex = (row: number, col: number) => nested
+    ? (Math.floor(row / 3) * 3 + Math.floor(col / 3)) * 9 + (row % 3) * 3 + col % 3
+    : row * size + col;
+  const boardGap = (line: number) => nested && line > 0 && line % 3 === 0 ? `${Math.max(4, Math.round(cellSize / 3))}px` : '0px';
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+      {cells.map(row => (
+        <div key={row} style={{ display: 'flex', gap: '4px', marginTop: boardGap(row) }}>
+          {cells.map(col => {
+            const index = cellIndex(row, col);
             return (
               <div key={index} style={{
-                width: '200px',
-                height: '200px',
+                width: `${cellSize}px`,
+                height: `${cellSize}px`,
                 display: 'flex',
                 alignItems: 'center',
                 justifyContent: 'center',
-                fontSize: '120px',
+                fontSize: `${Math.round(cellSize * 0.7)}px`,
                 background: 'linear-gradient(135deg, #0F0F2F 0%, #303095 100%)',
-                border: '4px solid black',
+                border: '2px solid black',
+                marginLeft: boardGap(col),
               }}>
                 {board[index]}
               </div>
@@ -709,40 +1859,122 @@ function renderBoard(board: (string | null)[]) {
   )
 }
 
-// Add this function before the game route
-function getCPUMove(board: (string | null)[], difficulty: 'easy' | 'medium' | 'hard'): number {
-  // Easy mode: Mostly random moves with occasional blocking
-  if (difficulty === 'easy') {
-    if (Math.random() < 0.5) {
-      const availableMoves = board.reduce((acc, cell, index) => {
-        if (cell === null) acc.push(index);
-        return acc;
-      }, [] as number[]);
-      return availableMoves[Math.floor(Math.random() * availableMoves.length)];
-    }
+type MarkedMove = { index: number, mark: 'O' | 'X' };
+
+// Every empty cell with both marks
+function getWildMoves(board: (string | null)[]): MarkedMove[] {
+  return board.flatMap((cell, index) => cell === null ? [{ index, mark: 'O' as const }, { index, mark: 'X' as const }] : []);
+}
+
+const wildScoreCache = new Map<string, number>();
+
+// Exact value of a wild position for whichever side is to move, so it holds whether the player
+// or the CPU opened. Cached by board, 3x3 wild only has 3^9 positions.
+function scoreWildPosition(board: (string | null)[]): number {
+  const key = board.map(cell => cell || '-').join('');
+  const cached = wildScoreCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const filled = board.filter(cell => cell !== null).length;
+  let score: number;
+  if (checkWin(board, 'wild')) {
+    // The side that just moved completed the line. Fewer marks on the board means a quicker loss.
+    score = filled - WIN_SCORE;
+  } else if (filled === board.length) {
+    score = 0;
+  } else {
+    score = -Infinity;
+    for (const { index, mark } of getWildMoves(board)) {
+      board[index] = mark;
+      score = Math.max(score, -scoreWildPosition(board));
+      board[index] = null;
+    }
+  }
+
+  wildScoreCache.set(key, score);
+  return score;
+}
+
+function getPerfectWildMove(board: (string | null)[], rng: Rng): MarkedMove {
+  let bestScore = -Infinity;
+  let bestMoves: MarkedMove[] = [];
+  for (const move of getWildMoves(board)) {
+    board[move.index] = move.mark;
+    const score = -scoreWildPosition(board);
+    board[move.index] = null;
+    if (score > bestScore) {
+      bestScore = score;
+      bestMoves = [move];
+    } else if (score === bestScore) {
+      bestMoves.push(move);
+    }
+  }
+  return bestMoves[Math.floor(rng() * bestMoves.length)];
+}
+
+// Takes a win when there is one, otherwise avoids leaving a line the player can finish with either mark
+function getBestWildMove(board: (string | null)[], rng: Rng): MarkedMove {
+  const moves = getWildMoves(board);
+  const completesLine = ({ index, mark }: MarkedMove) => {
+    board[index] = mark;
+    const wins = checkWin(board, 'wild');
+    board[index] = null;
+    return wins;
+  };
+
+  const winningMove = moves.find(completesLine);
+  if (winningMove) return winningMove;
+
+  const safeMoves = moves.filter(({ index, mark }) => {
+    board[index] = mark;
+    const safe = !getWildMoves(board).some(completesLine);
+    board[index] = null;
+    return safe;
+  });
+  const choices = safeMoves.length > 0 ? safeMoves : moves;
+  return choices[Math.floor(rng() * choices.length)];
+}
+
+// Add this function before the game route
+// Outside wild rules the CPU always plays `cpuMark`, the mark the player did not pick
+export function getCPUMove(board: (string | null)[], difficulty: Difficulty, rng: Rng, variant: Variant = 'classic', cpuMark: 'O' | 'X' = 'X'): MarkedMove {
+  const isWild = VARIANTS[variant].rules === 'wild';
+  const randomMove = (): MarkedMove => {
+    const availableMoves = board.reduce((acc, cell, index) => {
+      if (cell === null) acc.push(index);
+      return acc;
+    }, [] as number[]);
+    const index = availableMoves[Math.floor(rng() * availableMoves.length)];
+    return { index, mark: isWild ? (rng() < 0.5 ? 'O' : 'X') : cpuMark };
+  };
+
+  // Easy mode: Mostly random moves with occasional blocking
+  if (difficulty === 'easy') {
+    if (rng() < 0.5) {
+      return randomMove();
+    }
   }
 
   // Medium mode: Mix of random and strategic moves
   if (difficulty === 'medium') {
-    if (Math.random() < 0.3) {
-      const availableMoves = board.reduce((acc, cell, index) => {
-        if (cell === null) acc.push(index);
-        return acc;
-      }, [] as number[]);
-      return availableMoves[Math.floor(Math.random() * availableMoves.length)];
+    if (rng() < 0.3) {
+      return randomMove();
     }
   }
 
+  // Impossible mode: Full game-tree search, never loses unless the rules hand the opener a forced win
+  if (difficulty === 'impossible') {
+    return isWild ? getPerfectWildMove(board, rng) : { index: getPerfectMove(board, cpuMark, rng, variant), mark: cpuMark };
+  }
+
   // Hard mode (or fallback for medium): Use getBestMove
-  return getBestMove(board, 'X');
+  return isWild ? getBestWildMove(board, rng) : { index: getBestMove(board, cpuMark, rng, variant), mark: cpuMark };
 }
 
 // Routes will be defined here...
 
 // Initial route
 app.frame('/', () => {
-  const gifUrl = 'https://bafybeidnv5uh2ne54dlzyummobyv3bmc7uzuyt5htodvy27toqqhijf4xu.ipfs.w3s.link/PodPlay.gif'
-  const baseUrl = 'https://podplay.vercel.app' // Update this to your actual Domain
   const timestamp = Date.now()
 
   const html = `
@@ -753,18 +1985,18 @@ app.frame('/', () => {
       <meta name="viewport" content="width=device-width, initial-scale=1">
       <title>Tic-Tac-Maxi Game</title>
       <meta property="fc:frame" content="vNext">
-      <meta property="fc:frame:image" content="${gifUrl}">
+      <meta property="fc:frame:image" content="${config.assets.logoGif}">
       <meta property="fc:frame:image:aspect_ratio" content="1:1">
       <meta property="fc:frame:button:1" content="Start">
       <meta property="fc:frame:button:1:action" content="post">
-      <meta property="fc:frame:post_url" content="${baseUrl}/api/howtoplay">
+      <meta property="fc:frame:post_url" content="${appUrl('/howtoplay')}">
       
       
       <!-- Added Open Graph tags -->
       <meta property="og:title" content="Tic-Tac-Maxi">
       <meta property="og:description" content="Start New Game or Share!">
-      <meta property="og:image" content="${baseUrl}/api?t=${timestamp}">
-      <meta property="og:url" content="${baseUrl}/api">
+      <meta property="og:image" content="${appUrl('')}?t=${timestamp}">
+      <meta property="og:url" content="${appUrl('')}">
       <meta property="og:type" content="website">
     </head>
     <body>
@@ -778,8 +2010,6 @@ app.frame('/', () => {
 })
 
 app.frame('/howtoplay', () => {
-  const imageUrl = 'https://bafybeifzk7uojcicnh6yhnqvoldkpzuf32sullm34ela266xthbidca6ny.ipfs.w3s.link/HowToPlay%20(1).png'
-
   const html = `
     <!DOCTYPE html>
     <html lang="en">
@@ -788,11 +2018,20 @@ app.frame('/howtoplay', () => {
       <meta name="viewport" content="width=device-width, initial-scale=1">
       <title>How to Play Tic-Tac-Maxi</title>
       <meta property="fc:frame" content="vNext">
-      <meta property="fc:frame:image" content="${imageUrl}">
+      <meta property="fc:frame:image" content="${config.assets.howToPlay}">
       <meta property="fc:frame:image:aspect_ratio" content="1:1">
       <meta property="fc:frame:button:1" content="Choose Difficulty">
       <meta property="fc:frame:button:1:action" content="post">
-      <meta property="fc:frame:post_url" content="https://podplay.vercel.app/api/difficulty">
+      <meta property="fc:frame:button:2" content="Challenge a Friend">
+      <meta property="fc:frame:button:2:action" content="post">
+      <meta property="fc:frame:button:2:target" content="${appUrl('/challenge')}">
+      <meta property="fc:frame:button:3" content="Leaderboard">
+      <meta property="fc:frame:button:3:action" content="post">
+      <meta property="fc:frame:button:3:target" content="${appUrl('/leaderboard')}">
+      <meta property="fc:frame:button:4" content="Daily Puzzle">
+      <meta property="fc:frame:button:4:action" content="post">
+      <meta property="fc:frame:button:4:target" content="${appUrl('/daily')}">
+      <meta property="fc:frame:post_url" content="${appUrl('/difficulty')}">
     </head>
     <body>
     </body>
@@ -804,8 +2043,71 @@ app.frame('/howtoplay', () => {
   })
 })
 
+// Offered by /difficulty while the player has an unfinished game
+function renderResumePrompt(c: FrameContext<{ Variables: NeynarVariables }>, session: GameSession) {
+  const { state } = session;
+  const board = session.mode === 'ultimate' ? replayUltimate(session.state.moves).cells : session.state.board;
+  const label = session.mode === 'ultimate' ? 'Ultimate' : VARIANTS[session.state.variant].label;
+  const minutesLeft = Math.max(1, Math.round((session.expiresAt.getTime() - Date.now()) / 60000));
+  return c.res({
+    image: (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column' as const,
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: '1080px',
+        height: '1080px',
+        backgroundImage: `url(${config.assets.menuBackground})`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        color: 'white',
+        fontFamily: 'Arial, sans-serif',
+      }}>
+        <h1 style={{ fontSize: '52px', marginBottom: '20px' }}>Unfinished Game</h1>
+        {renderMiniBoard(board, Math.round(300 / Math.sqrt(board.length)), session.mode === 'ultimate')}
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column' as const,
+          marginTop: '30px',
+          backgroundColor: 'rgba(0, 0, 0, 0.6)',
+          padding: '30px',
+          borderRadius: '10px',
+          width: '80%',
+          alignItems: 'center',
+          textAlign: 'center',
+        }}>
+          <p style={{ fontSize: '36px', textAlign: 'center' }}>
+            Your {label} game on {state.difficulty} is waiting for your move.
+          </p>
+          <p style={{ fontSize: '32px', textAlign: 'center' }}>
+            It counts as a loss in {minutesLeft} min, or as soon as you start a new game.
+          </p>
+        </div>
+      </div>
+    ),
+    intents: [
+      <Button action={session.mode === 'ultimate' ? '/ultimate' : '/game'} value={`resume:${session.id}`}>Resume ▶</Button>,
+      <Button action="/difficulty" value="new">New Game</Button>
+    ],
+  });
+}
+
 // How to Play route
-app.frame('/difficulty', (c) => {
+app.frame('/difficulty', async (c) => {
+  // Checking for a resumable game can forfeit an expired one
+  const rejection = await rejectUnverifiedFrame(c);
+  if (rejection) return rejection;
+  if (c.buttonValue !== 'new') {
+    const session = await getResumableSession(c.frameData?.fid);
+    if (session) {
+      return renderResumePrompt(c, session);
+    }
+  }
+
+  // Play Again sends `again:<turn order>:<mark>:<position>` so alternate mode knows who opened last
+  const carried = c.buttonValue?.startsWith('again:') ? c.buttonValue.slice('again:'.length) : '';
+  const startValue = (difficulty: Difficulty) => carried ? `start:${difficulty}:${carried}` : `start:${difficulty}`;
   return c.res({
     image: (
       <div style={{
@@ -815,7 +2117,7 @@ app.frame('/difficulty', (c) => {
         justifyContent: 'center',
         width: '1080px',
         height: '1080px',
-        backgroundImage: 'url(https://bafybeic3qu53tn46qmtgvterldnbbavt2h5y2x7unpyyc7txh2kcx6f6jm.ipfs.w3s.link/Frame%2039%20(3).png)',
+        backgroundImage: `url(${config.assets.menuBackground})`,
         backgroundSize: 'cover',
         backgroundPosition: 'center',
         color: 'white',
@@ -837,125 +2139,354 @@ app.frame('/difficulty', (c) => {
           <p style={{ fontSize: '36px', marginBottom: '10px', textAlign: 'center' }}>🟢 Easy: For casual fun</p>
           <p style={{ fontSize: '36px', marginBottom: '10px', textAlign: 'center' }}>🟡 Medium: For a challenge</p>
           <p style={{ fontSize: '36px', marginBottom: '10px', textAlign: 'center' }}>🔴 Hard: For experts</p>
+          <p style={{ fontSize: '36px', marginBottom: '10px', textAlign: 'center' }}>⚫ Impossible: Perfect play</p>
+          <p style={{ fontSize: '32px', textAlign: 'center' }}>Variants: type 4x4 or 5x5 (4 in a row wins), misere (3 in a row loses), wild (play X or O) or ultimate (nine boards in one)</p>
+          <p style={{ fontSize: '32px', textAlign: 'center' }}>Add X or O to pick your mark, and first, second or alternate to pick who opens</p>
         </div>
       </div>
     ),
     intents: [
-      <Button action="/game" value="start:easy">Easy 🟢</Button>,
-      <Button action="/game" value="start:medium">Medium 🟡</Button>,
-      <Button action="/game" value="start:hard">Hard 🔴</Button>
+      <TextInput placeholder="Options, e.g. 4x4 X second" />,
+      <Button action="/game" value={startValue('easy')}>Easy 🟢</Button>,
+      <Button action="/game" value={startValue('medium')}>Medium 🟡</Button>,
+      <Button action="/game" value={startValue('hard')}>Hard 🔴</Button>,
+      <Button action="/game" value={startValue('impossible')}>Impossible ⚫</Button>
     ],
   });
 });
 
+// Shown instead of the board when a submitted game state fails verification or its session is gone
+function renderInvalidStateFrame(
+  c: FrameContext<{ Variables: NeynarVariables }>,
+  message: string = 'This game could not be verified. Please start a new game.'
+) {
+  return c.res({
+    image: (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column' as const,
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: '1080px',
+        height: '1080px',
+        backgroundImage: `url(${config.assets.gameBackground})`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        color: 'white',
+        fontSize: '36px',
+        fontFamily: '"Silkscreen", sans-serif',
+      }}>
+        <div style={{
+          maxWidth: '900px',
+          textAlign: 'center',
+          backgroundColor: 'rgba(255, 255, 255, 0.7)',
+          padding: '20px',
+          borderRadius: '10px',
+          color: 'black',
+          fontFamily: '"Silkscreen", sans-serif',
+          fontWeight: 700,
+        }}>
+          {message}
+        </div>
+      </div>
+    ),
+    intents: [
+      <Button action="/difficulty">New Game</Button>
+    ],
+  });
+}
+
 app.frame('/game', async (c) => {
-  console.log('Entering /game route');
-  const { buttonValue, status, frameData } = c;
-  console.log('Request details:', { buttonValue, status, frameData });
+  const rejection = await rejectUnverifiedFrame(c) ?? await rejectTooManyMoves(c);
+  if (rejection) return rejection;
+  const { buttonValue, inputText, status, frameData } = c;
+  logger.debug('Game request', { buttonValue, inputText, status });
   const fid = frameData?.fid;
 
   let username = 'Player';
   if (fid) {
     try {
       username = await getUsername(fid.toString());
-      console.log(`Username fetched: ${username}`);
     } catch (error) {
-      console.error('Error getting username:', error);
+      logger.error('Error getting username', { error });
     }
   }
 
   let state: GameState = {
     board: Array(9).fill(null), currentPlayer: 'O', isGameOver: false,
-    difficulty: 'easy' // Default difficulty
+    difficulty: 'easy', // Default difficulty
+    variant: 'classic',
+    ...DEFAULT_SEAT,
+    turnOrder: 'first',
+    hintsUsed: 0,
+    gameId: createGameId(),
+    fid,
+    seed: createSeed(),
+    moves: [],
+    startedAt: Date.now()
   };
   
-  // Set difficulty based on buttonValue if starting a new game
+  // Set difficulty based on buttonValue if starting a new game.
+  // Values from Play Again also carry the last game's turn order, mark and opening position.
+  let carriedOrder: string | undefined;
+  let carriedMark: string | undefined;
+  let lastPosition: string | undefined;
   if (status === 'response' && buttonValue && buttonValue.startsWith('start:')) {
-    const [, difficulty] = buttonValue.split(':');
-    state.difficulty = difficulty as 'easy' | 'medium' | 'hard';
+    const [, difficulty, order, mark, position] = buttonValue.split(':');
+    if (DIFFICULTIES.includes(difficulty as Difficulty)) {
+      state.difficulty = difficulty as Difficulty;
+    }
+    [carriedOrder, carriedMark, lastPosition] = [order, mark, position];
   }
-  
-  let message = `New game started on ${state.difficulty}! Your turn, ${username}`;
+
+  // Players keep one unfinished game, starting another forfeits it, or drops it if they never moved
+  const isStart = status === 'response' && buttonValue?.startsWith('start:');
+  const abandoned = isStart ? await getResumableSession(fid) : null;
+  if (abandoned) {
+    try {
+      await forfeitSession(abandoned);
+    } catch (error) {
+      logger.error('Error forfeiting game', { gameId: abandoned.id, error });
+    }
+  }
+
+  // The variant, turn order and mark are typed next to the difficulty buttons, blank means classic
+  const options = parseGameOptions(isStart ? inputText : '');
+  if (options.mode === 'ultimate') {
+    const ultimate = newUltimateState(state.difficulty, fid);
+    let message = `New Ultimate game started on ${state.difficulty}! Play in any board, ${username}.`;
+    try {
+      await saveUltimateSession(ultimate);
+    } catch (error) {
+      logger.error('Error saving game session', { gameId: ultimate.gameId, error });
+      message = "Your game could not be saved. Please try again.";
+    }
+    return renderUltimateGame(c, ultimate, message);
+  }
+  const { size } = VARIANTS[options.mode];
+  state.variant = options.mode;
+  state.board = Array(size * size).fill(null);
+  state.turnOrder = options.turnOrder
+    || (carriedOrder === 'second' || carriedOrder === 'alternate' ? carriedOrder : 'first');
+  state.playerMark = options.playerMark || (carriedMark === 'X' ? 'X' : 'O');
+  state.currentPlayer = state.playerMark;
+  state.playerFirst = state.turnOrder === 'alternate' ? lastPosition !== 'first' : state.turnOrder === 'first';
+
+  let message = state.variant === 'classic'
+    ? `New game started on ${state.difficulty}!`
+    : `New ${VARIANTS[state.variant].label} game started on ${state.difficulty}, ${VARIANTS[state.variant].summary}!`;
+  if (options.unknown.length > 0) {
+    message = `"${options.unknown.join(' ')}" is not an option, playing ${VARIANTS[state.variant].label}. ${message}`;
+  }
+  if (abandoned) {
+    message = `Your unfinished game counted as a loss. ${message}`;
+  }
+  if (state.playerMark === 'X' && VARIANTS[state.variant].rules !== 'wild') {
+    message += ' You play X.';
+  }
+  if (!state.playerFirst) {
+    // The CPU opens with the same seeded move a replay will recompute for ply 0
+    const opening = getCPUMove(state.board, state.difficulty, rngForTurn(state.seed, 0), state.variant, otherMark(state.playerMark));
+    state.moves.push(opening.index);
+    state.board[opening.index] = opening.mark;
+    message += VARIANTS[state.variant].rules === 'wild'
+      ? ` Computer opened with ${opening.mark} at ${getCoordinates(size)[opening.index]}.`
+      : ` Computer opened at ${getCoordinates(size)[opening.index]}.`;
+  }
+  message += ` Your turn, ${username}`;
   let gameResult: 'win' | 'lose' | 'draw' | null = null;
+  let newBadges: BadgeId[] = [];
+  let hint: MarkedMove | null = null;
+  // Cleared while a request for an existing game is processed, so a failed move never reaches the session
+  let saveState = true;
+
+  // A game that can't continue gets its own frame, other errors are shown on the board so the player can retry
+  const renderRejectedGame = (error: unknown) => {
+    if (error instanceof GameSessionError) {
+      return renderInvalidStateFrame(c, error.message);
+    }
+    if (error instanceof InvalidGameStateError) {
+      logger.warn('Rejected game state', { reason: error.message });
+      return renderInvalidStateFrame(c);
+    }
+    return null;
+  };
+
+  // Resume from the /difficulty prompt, or straight away when /game is opened without a move
+  if (status === 'response' && (!buttonValue || buttonValue.startsWith('resume:'))) {
+    try {
+      const session = buttonValue ? null : await getResumableSession(fid);
+      if (session?.mode === 'ultimate') {
+        return renderUltimateGame(c, session.state, `Welcome back, ${username}! Your Ultimate game on ${session.state.difficulty} continues.`);
+      }
+      const resumed = buttonValue
+        ? await loadGameSession(buttonValue.slice('resume:'.length), fid)
+        : session?.state;
+      if (resumed) {
+        state = resumed;
+        saveState = false;
+        message = `Welcome back, ${username}! Your ${VARIANTS[state.variant].label} game on ${state.difficulty} continues. Your turn.`;
+      }
+    } catch (error) {
+      const rejected = renderRejectedGame(error);
+      if (rejected) return rejected;
+      logger.error('Error resuming game', { error });
+    }
+  }
+
+  // The hint is the move impossible difficulty would make for the player's side. It is only drawn on this frame.
+  if (status === 'response' && buttonValue && buttonValue.startsWith('hint:')) {
+    try {
+      saveState = false;
+      state = await loadGameSession(buttonValue.slice('hint:'.length), fid);
+      if (state.isGameOver) {
+        message = "Game is over. Start a new game!";
+      } else if (state.hintsUsed >= HINTS_PER_GAME) {
+        message = `No hints left this game. Your turn, ${username}.`;
+      } else {
+        hint = getCPUMove([...state.board], 'impossible', rngForTurn(state.seed, state.moves.length, 'hint'), state.variant, state.playerMark);
+        state.hintsUsed++;
+        saveState = true;
+        const cell = getCoordinates(VARIANTS[state.variant].size)[hint.index];
+        message = `💡 Try ${VARIANTS[state.variant].rules === 'wild' ? `${hint.mark} at ` : ''}${cell} (hint ${state.hintsUsed} of ${HINTS_PER_GAME}, hinted wins score less). Your turn, ${username}.`;
+      }
+    } catch (error) {
+      const rejected = renderRejectedGame(error);
+      if (rejected) return rejected;
+      logger.error('Error getting hint', { error });
+      message = "An error occurred while getting your hint. Please try again.";
+    }
+  }
 
   if (status === 'response' && buttonValue && buttonValue.startsWith('move:')) {
-    console.log('Processing move');
     try {
-      const [, encodedState, moveIndex] = buttonValue.split(':');
-      state = decodeState(encodedState);
-      const move = parseInt(moveIndex);
-      console.log('Move details:', { move, currentBoard: state.board });
-
-      if (state.board[move] === null && !state.isGameOver) {
-        state.board[move] = 'O';
-        message = `${username} moved at ${COORDINATES[move]}.`;
+      saveState = false;
+      const [, sessionId, moveIndex, markValue] = buttonValue.split(':');
+      state = await loadGameSession(sessionId, fid);
+      const { size, winLength, rules } = VARIANTS[state.variant];
+      const coordinates = getCoordinates(size);
+      // Wild moves also name a mark, typed as "B2 X" or carried in the quick pick's value. O if left out.
+      const [typedCell, typedMark] = (inputText || '').trim().split(/\s+/);
+      const move = moveIndex === 'input' ? parseCoordinate(rules === 'wild' ? typedCell : inputText, coordinates) : parseInt(moveIndex);
+      const mark = rules !== 'wild'
+        ? state.playerMark
+        : (moveIndex === 'input' ? typedMark : markValue)?.toUpperCase() === 'X' ? 'X' : 'O';
+      logger.debug('Processing move', { gameId: state.gameId, move, board: state.board });
+
+      if (moveIndex !== 'input' && (move === null || !Number.isInteger(move) || move < 0 || move >= state.board.length)) {
+        throw new InvalidGameStateError(`Move index out of range: ${moveIndex}`);
+      }
+
+      if (move === null) {
+        message = `${describeInvalidCoordinate(inputText, size)} Your turn, ${username}.`;
+      } else if (state.board[move] === null && !state.isGameOver) {
+        state.board[move] = mark;
+        state.moves.push(move);
+        message = rules === 'wild' ? `${username} played ${mark} at ${coordinates[move]}.` : `${username} moved at ${coordinates[move]}.`;
         
-        if (checkWin(state.board)) {
-          gameResult = 'win';
-          message = `${username} wins! Game over.`;
+        if (checkWin(state.board, state.variant)) {
+          gameResult = lineResult(true, state.variant);
+          message = gameResult === 'win'
+            ? `${username} wins! Game over.`
+            : `${username} made ${winLength} in a row and loses! Game over.`;
           state.isGameOver = true;
-          if (fid) {
-            updateUserRecord(fid.toString(), true, state.difficulty);
-          }
         } else if (state.board.every((cell) => cell !== null)) {
           gameResult = 'draw';
           message = `It's a draw! Game over.`;
           state.isGameOver = true;
-          if (fid) {
-            updateUserTieAsync(fid.toString());
-          }
         } else {
-          const computerMove = getCPUMove(state.board, state.difficulty);
-          state.board[computerMove] = 'X';
-          message += ` Computer moved at ${COORDINATES[computerMove]}.`;
+          const computerMove = getCPUMove(state.board, state.difficulty, rngForTurn(state.seed, state.moves.length), state.variant, otherMark(state.playerMark));
+          state.moves.push(computerMove.index);
+          state.board[computerMove.index] = computerMove.mark;
+          message += rules === 'wild'
+            ? ` Computer played ${computerMove.mark} at ${coordinates[computerMove.index]}.`
+            : ` Computer moved at ${coordinates[computerMove.index]}.`;
           
-          if (checkWin(state.board)) {
-            gameResult = 'lose';
-            message = `Computer wins! Game over.`;
+          if (checkWin(state.board, state.variant)) {
+            gameResult = lineResult(false, state.variant);
+            message = gameResult === 'lose'
+              ? `Computer wins! Game over.`
+              : `Computer made ${winLength} in a row, ${username} wins! Game over.`;
             state.isGameOver = true;
-            if (fid) {
-              updateUserRecord(fid.toString(), false, state.difficulty);
-            }
           } else if (state.board.every((cell) => cell !== null)) {
             gameResult = 'draw';
             message += ` It's a draw. Game over.`;
             state.isGameOver = true;
-            if (fid) {
-              updateUserTieAsync(fid.toString());
-            }
           } else {
             message += ` Your turn, ${username}.`;
           }
         }
+
+        saveState = true;
+        if (gameResult && fid) {
+          const recording = await recordGameResult(state.gameId, {
+            fid: fid.toString(),
+            difficulty: state.difficulty,
+            variant: state.variant,
+            playerMark: state.playerMark,
+            playerFirst: state.playerFirst,
+            hintsUsed: state.hintsUsed,
+            moves: state.moves,
+            board: state.board,
+            result: gameResult,
+            startedAt: new Date(state.startedAt),
+            endedAt: new Date(),
+          });
+          newBadges = recording.badges;
+          if (recording.heldForReview) {
+            message += ' This result is held for review and was not counted.';
+          }
+          if (newBadges.length > 0) {
+            message += ` 🏅 Unlocked: ${newBadges.map(id => BADGES[id].name).join(', ')}!`;
+          }
+        }
       } else if (state.isGameOver) {
         message = "Game is over. Start a new game!";
       } else {
-        message = "That spot is already taken! Choose another.";
+        message = `${coordinates[move]} is already taken! Choose an empty cell.`;
       }
     } catch (error) {
-      console.error('Error processing move:', error);
+      const rejected = renderRejectedGame(error);
+      if (rejected) return rejected;
+      logger.error('Error processing move', { error });
       message = "An error occurred while processing your move. Please try again.";
     }
   }
 
-  console.log('Final game state:', state);
-  console.log('Message:', message);
-  console.log('Game result:', gameResult);
+  if (saveState) {
+    try {
+      await saveGameSession(state);
+    } catch (error) {
+      logger.error('Error saving game session', { gameId: state.gameId, error });
+      message = "Your game could not be saved. Please try again.";
+    }
+  }
+
+  logger.debug('Game response', { gameId: state.gameId, moves: state.moves, result: gameResult, reply: message });
 
+  // Only the share link carries the whole state, buttons refer to the stored session by game ID
   const encodedState = encodeState(state);
   const availableMoves = state.board.reduce((acc, cell, index) => {
     if (cell === null) acc.push(index);
     return acc;
   }, [] as number[]);
 
-  const shuffledMoves = shuffleArray(availableMoves).slice(0, 4);
+  // Quick picks next to the text input, which accepts any empty cell. Wild picks come with a random mark.
+  // The Hint button takes the third pick's place until the game's hints run out.
+  const hintsLeft = HINTS_PER_GAME - state.hintsUsed;
+  const buttonRng = rngForTurn(state.seed, state.moves.length, 'buttons');
+  const shuffledMoves = shuffleArray(availableMoves, buttonRng).slice(0, hintsLeft > 0 ? 2 : 3);
+  const isWild = VARIANTS[state.variant].rules === 'wild';
+  const quickPickMarks = shuffledMoves.map(() => buttonRng() < 0.5 ? 'O' : 'X');
 
   const intents = state.isGameOver
     ? [
-        <Button action="/difficulty">Play Again</Button>,
+        <Button action="/difficulty" value={`again:${state.turnOrder}:${state.playerMark}:${state.playerFirst ? 'first' : 'second'}`}>Play Again</Button>,
         <Button action="/share">Your Stats</Button>,
-        <Button action="https://moxie-frames.airstack.xyz/stim?t=cid_thepod">/thepod FT</Button>,
-        <Button.Link href={`https://warpcast.com/~/compose?text=${encodeURIComponent(`I just played Tic-Tac-Maxi by POD Play presented by @moxie.eth! ${
+        newBadges.length > 0 && fid
+          ? <Button.Link href={badgeShareUrl(fid.toString(), newBadges[0])}>Share Badge 🏅</Button.Link>
+          : <Button action={config.endpoints.tokenFrame}>/thepod FT</Button>,
+        <Button.Link href={composeCastUrl(`I just played Tic-Tac-Maxi by POD Play presented by @moxie.eth! ${
           gameResult === 'win' 
             ? 'I won! 😁' 
             : gameResult === 'lose'
@@ -963,15 +2494,820 @@ app.frame('/game', async (c) => {
             : gameResult === 'draw'
             ? "It's a draw!"
             : ''
-        } Frame by @goldie & @themrsazon`)}&embeds[]=${encodeURIComponent(`https://podplay.vercel.app/api/shared-game?state=${encodedState}&result=${gameResult}`)}`}>
+        } ${config.credits}`, appUrl(`/shared-game?state=${encodedState}&result=${gameResult}`))}>
           Share Results
         </Button.Link>
       ]
-    : shuffledMoves.map((index) => 
-        <Button value={`move:${encodedState}:${index}`}>
-          {COORDINATES[index]}
-        </Button>
-      );
+    : [
+        <TextInput placeholder={isWild ? 'Cell and mark, e.g. B2 X' : 'Enter a cell, e.g. B2'} />,
+        <Button value={`move:${state.gameId}:input`}>Play ✔</Button>,
+        ...shuffledMoves.map((index, i) => 
+          <Button value={isWild ? `move:${state.gameId}:${index}:${quickPickMarks[i]}` : `move:${state.gameId}:${index}`}>
+            {getCoordinates(VARIANTS[state.variant].size)[index]}{isWild ? ` ${quickPickMarks[i]}` : ''}
+          </Button>
+        ),
+        ...(hintsLeft > 0 ? [<Button value={`hint:${state.gameId}`}>{`💡 Hint (${hintsLeft})`}</Button>] : [])
+      ];
+
+  return c.res({
+    image: (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column' as const,
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: '1080px',
+        height: '1080px',
+        backgroundImage: `url(${config.assets.gameBackground})`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        color: 'white',
+        fontSize: '36px',
+        fontFamily: '"Silkscreen", sans-serif',
+      }}>
+        {renderBoard(state.board, hint ? renderHintCell(hint) : renderBoardCell)}
+        <div style={{ 
+          marginTop: '40px', 
+          maxWidth: '900px', 
+          textAlign: 'center', 
+          backgroundColor: 'rgba(255, 255, 255, 0.7)', 
+          padding: '20px', 
+          borderRadius: '10px', 
+          color: 'black',
+          fontFamily: '"Silkscreen", sans-serif',
+          fontWeight: 700,
+        }}>
+          {message}
+        </div>
+      </div>
+    ),
+    intents: intents,
+  });
+});
+
+async function createMatch(creatorFid: number, opponentFid: number | null): Promise<string> {
+  const matchId = createGameId();
+  const createdAt = new Date();
+  await statsRepository.createMatch(matchId, {
+    board: Array(9).fill(null),
+    creatorFid,
+    opponentFid,
+    currentPlayer: 'O',
+    status: opponentFid ? 'active' : 'open',
+    winnerFid: null,
+    createdAt,
+    updatedAt: createdAt,
+  });
+  return matchId;
+}
+
+async function getMatch(matchId: string): Promise<MatchRecord | null> {
+  try {
+    return await statsRepository.getMatch(matchId);
+  } catch (error) {
+    logger.error('Error getting match', { matchId, error });
+    return null;
+  }
+}
+
+async function getPvpRecord(fid: string): Promise<PvpRecord> {
+  try {
+    return await statsRepository.getPvpRecord(fid) || { wins: 0, losses: 0, ties: 0 };
+  } catch (error) {
+    logger.error('Error getting PvP record', { playerFid: fid, error });
+    return { wins: 0, losses: 0, ties: 0 };
+  }
+}
+
+function renderMessageFrame(c: FrameContext<{ Variables: NeynarVariables }>, message: string, intents: FrameIntent[]) {
+  return c.res({
+    image: (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column' as const,
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: '1080px',
+        height: '1080px',
+        backgroundImage: `url(${config.assets.menuBackground})`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        color: 'white',
+        fontFamily: '"Silkscreen", sans-serif',
+      }}>
+        <div style={{
+          display: 'flex',
+          maxWidth: '900px',
+          textAlign: 'center',
+          backgroundColor: 'rgba(0, 0, 0, 0.6)',
+          padding: '40px',
+          borderRadius: '10px',
+          fontSize: '40px',
+        }}>
+          {message}
+        </div>
+      </div>
+    ),
+    intents,
+  });
+}
+
+app.frame('/challenge', (c) => {
+  return c.res({
+    image: (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column' as const,
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: '1080px',
+        height: '1080px',
+        backgroundImage: `url(${config.assets.menuBackground})`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        color: 'white',
+        fontFamily: 'Arial, sans-serif',
+      }}>
+        <h1 style={{ fontSize: '52px', marginBottom: '20px' }}>Challenge a Friend</h1>
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column' as const,
+          gap: '20px',
+          backgroundColor: 'rgba(0, 0, 0, 0.6)',
+          padding: '40px',
+          borderRadius: '10px',
+          width: '80%',
+          alignItems: 'center',
+          textAlign: 'center',
+        }}>
+          <p style={{ fontSize: '40px', textAlign: 'center' }}>Enter your opponent's FID</p>
+          <p style={{ fontSize: '32px', textAlign: 'center' }}>Leave it blank to let anyone accept</p>
+          <p style={{ fontSize: '32px', textAlign: 'center' }}>You play O and move first</p>
+        </div>
+      </div>
+    ),
+    intents: [
+      <TextInput placeholder="Opponent FID (optional)" />,
+      <Button action="/challenge/create">Create ⚔️</Button>,
+      <Button action="/difficulty">Play CPU</Button>
+    ],
+  });
+});
+
+app.frame('/challenge/create', async (c) => {
+  const rejection = await rejectUnverifiedFrame(c);
+  if (rejection) return rejection;
+  const { frameData, inputText } = c;
+  const fid = frameData?.fid;
+  const backIntents = [<Button action="/challenge">Back</Button>];
+
+  if (!fid) {
+    return renderMessageFrame(c, 'Open this frame in a Farcaster client to create a challenge.', backIntents);
+  }
+
+  const opponentInput = (inputText || '').trim();
+  if (opponentInput && !/^\d+$/.test(opponentInput)) {
+    return renderMessageFrame(c, `"${opponentInput}" is not a valid FID. Use numbers only.`, backIntents);
+  }
+  const opponentFid = opponentInput ? parseInt(opponentInput) : null;
+  if (opponentFid === fid) {
+    return renderMessageFrame(c, "You can't challenge yourself.", backIntents);
+  }
+
+  let matchId: string;
+  try {
+    matchId = await createMatch(fid, opponentFid);
+  } catch (error) {
+    logger.error('Error creating match', { playerFid: fid, error });
+    return renderMessageFrame(c, 'Could not create the match. Please try again.', backIntents);
+  }
+
+  const castText = opponentFid
+    ? `I challenge FID ${opponentFid} to Tic-Tac-Maxi! ⚔️ ${config.credits}`
+    : `Who wants to take me on in Tic-Tac-Maxi? ⚔️ ${config.credits}`;
+
+  return renderMessageFrame(c, opponentFid
+    ? `Challenge sent to FID ${opponentFid}! Share it so they can play.`
+    : 'Open challenge created! Share it so anyone can accept.', [
+    <Button action={`/match/${matchId}`}>Make First Move</Button>,
+    <Button.Link href={composeCastUrl(castText, appUrl(`/match/${matchId}`))}>
+      Share Challenge
+    </Button.Link>
+  ]);
+});
+
+app.frame('/match/:matchId', async (c) => {
+  const rejection = await rejectUnverifiedFrame(c) ?? await rejectTooManyMoves(c);
+  if (rejection) return rejection;
+  const { buttonValue, inputText, status, frameData } = c;
+  const matchId = c.req.param('matchId');
+  const fid = frameData?.fid;
+
+  let match = await getMatch(matchId);
+  let notice: string | null = null;
+
+  if (match && status === 'response' && buttonValue && buttonValue.startsWith('pvp:')) {
+    if (!fid) {
+      notice = 'Open this frame in a Farcaster client to play.';
+    } else {
+      const [, moveIndex] = buttonValue.split(':');
+      const move = moveIndex === 'input' ? parseCoordinate(inputText) : parseInt(moveIndex);
+      try {
+        if (move === null) {
+          throw new MatchMoveError(describeInvalidCoordinate(inputText));
+        }
+        match = await statsRepository.playMatchMove(matchId, fid, move);
+      } catch (error) {
+        if (error instanceof MatchMoveError) {
+          notice = error.message;
+        } else {
+          logger.error('Error playing match move', { matchId, error });
+          notice = 'An error occurred while processing your move. Please try again.';
+        }
+      }
+    }
+  }
+
+  if (!match) {
+    return renderMessageFrame(c, 'This match could not be found.', [
+      <Button action="/challenge">New Challenge</Button>
+    ]);
+  }
+
+  const playerProfiles = await getProfiles(
+    match.opponentFid ? [match.creatorFid.toString(), match.opponentFid.toString()] : [match.creatorFid.toString()]
+  );
+  const creatorName = playerProfiles.get(match.creatorFid.toString())!.username;
+  const opponentName = match.opponentFid ? playerProfiles.get(match.opponentFid.toString())!.username : 'anyone';
+  const turnFid = match.currentPlayer === 'O' ? match.creatorFid : match.opponentFid;
+  const canJoin = match.status === 'open' && match.currentPlayer === 'X' && fid !== undefined && fid !== match.creatorFid;
+  const isViewersTurn = match.status !== 'finished' && fid !== undefined && (fid === turnFid || canJoin);
+
+  let message: string;
+  if (match.status === 'finished') {
+    message = match.winnerFid === null
+      ? `It's a draw between ${creatorName} and ${opponentName}!`
+      : `${match.winnerFid === match.creatorFid ? creatorName : opponentName} wins the match!`;
+  } else if (isViewersTurn) {
+    message = `${creatorName} (O) vs ${opponentName} (X). Your turn!`;
+  } else {
+    const waitingOn = match.currentPlayer === 'O' ? creatorName : opponentName;
+    message = `${creatorName} (O) vs ${opponentName} (X). Waiting for ${waitingOn}.`;
+  }
+  if (notice) {
+    message = `${notice} ${message}`;
+  }
+
+  const availableMoves = match.board.reduce((acc, cell, index) => {
+    if (cell === null) acc.push(index);
+    return acc;
+  }, [] as number[]);
+
+  const intents = match.status === 'finished'
+    ? [
+        <Button action="/challenge">New Challenge</Button>,
+        <Button action="/difficulty">Play CPU</Button>
+      ]
+    : isViewersTurn
+    ? [
+        <TextInput placeholder="Enter a cell, e.g. B2" />,
+        <Button value="pvp:input">Play ✔</Button>,
+        ...shuffleArray(availableMoves, Math.random).slice(0, 3).map((index) =>
+          <Button value={`pvp:${index}`}>
+            {COORDINATES[index]}
+          </Button>
+        )
+      ]
+    : [
+        <Button value="refresh">Refresh</Button>,
+        <Button action="/challenge">New Challenge</Button>
+      ];
+
+  return c.res({
+    image: (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column' as const,
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: '1080px',
+        height: '1080px',
+        backgroundImage: `url(${config.assets.gameBackground})`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        color: 'white',
+        fontSize: '36px',
+        fontFamily: '"Silkscreen", sans-serif',
+      }}>
+        {renderBoard(match.board)}
+        <div style={{
+          marginTop: '40px',
+          maxWidth: '900px',
+          textAlign: 'center',
+          backgroundColor: 'rgba(255, 255, 255, 0.7)',
+          padding: '20px',
+          borderRadius: '10px',
+          color: 'black',
+          fontFamily: '"Silkscreen", sans-serif',
+          fontWeight: 700,
+        }}>
+          {message}
+        </div>
+      </div>
+    ),
+    intents,
+  });
+});
+
+// Daily puzzles: the player (O) is to move and can force a win within `movesToWin`
+// of their own moves against perfect defence. Boards list A1..C3, '-' for empty.
+const DAILY_PUZZLES: { board: string, movesToWin: number }[] = [
+  { board: 'OXOX-----', movesToWin: 2 },
+  { board: 'OX-X---O-', movesToWin: 2 },
+  { board: 'O--X--OX-', movesToWin: 2 },
+  { board: 'XO-X-OOX-', movesToWin: 2 },
+  { board: 'OX-------', movesToWin: 3 },
+  { board: '-O-XXO---', movesToWin: 2 },
+  { board: '-O---XOX-', movesToWin: 2 },
+  { board: '-O-O--XX-', movesToWin: 3 },
+  { board: '-XOOXX-O-', movesToWin: 2 },
+  { board: '--O--XXO-', movesToWin: 2 },
+  { board: '--XO-----', movesToWin: 3 },
+  { board: '--XO---XO', movesToWin: 2 },
+  { board: 'X----O-OX', movesToWin: 2 },
+  { board: 'X-----O--', movesToWin: 3 },
+]
+
+type DailyPuzzleState = {
+  date: string;  // YYYY-MM-DD, UTC
+  playerMoves: number[];  // CPU replies are recomputed, so only the player's moves are kept
+  fid?: number;
+}
+
+function verifyDailyPuzzleState(token: string): DailyPuzzleState {
+  const state = verifySignedState(token, 'daily');
+  if (!isRecord(state)) {
+    throw new InvalidGameStateError('Signed value is not a daily puzzle');
+  }
+  const { date, playerMoves, fid } = state;
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)
+    || !isIntegerList(playerMoves) || playerMoves.some(move => move < 0 || move >= 9)
+    || (fid !== undefined && typeof fid !== 'number')) {
+    throw new InvalidGameStateError('Signed value is not a daily puzzle');
+  }
+  return { date, playerMoves, fid };
+}
+
+type PuzzleProgress = {
+  board: (string | null)[];
+  movesToWin: number;
+  result: 'solved' | 'failed' | null;
+  cpuMove: number | null;  // The CPU's latest reply
+  failReason?: string;
+}
+
+function getPuzzleDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+// Same date, same puzzle for everyone
+function getDailyPuzzle(date: string) {
+  const day = Math.floor(Date.parse(date) / (24 * 60 * 60 * 1000));
+  return { ...DAILY_PUZZLES[day % DAILY_PUZZLES.length], day };
+}
+
+// Replays the player's moves against perfect defence. The CPU's tie-breaks are seeded
+// by the day, so every replay of the same moves gives the same board.
+function playDailyPuzzle(date: string, playerMoves: number[]): PuzzleProgress {
+  const puzzle = getDailyPuzzle(date);
+  const board = puzzle.board.split('').map(cell => cell === '-' ? null : cell);
+  const progress: PuzzleProgress = { board, movesToWin: puzzle.movesToWin, result: null, cpuMove: null };
+
+  for (let i = 0; i < playerMoves.length; i++) {
+    const move = playerMoves[i];
+    if (progress.result) {
+      throw new InvalidGameStateError('Move played after the puzzle ended');
+    }
+    if (!Number.isInteger(move) || move < 0 || move > 8 || board[move] !== null) {
+      throw new InvalidGameStateError(`Puzzle move ${i + 1} is not a legal move: ${move}`);
+    }
+
+    board[move] = 'O';
+    if (checkWin(board)) {
+      progress.result = 'solved';
+    } else if (board.every(cell => cell !== null)) {
+      progress.result = 'failed';
+      progress.failReason = "It's a draw.";
+    } else if (i + 1 >= puzzle.movesToWin) {
+      progress.result = 'failed';
+      progress.failReason = 'Out of moves.';
+    } else {
+      progress.cpuMove = getPerfectMove(board, 'X', rngForTurn(puzzle.day, i * 2 + 1));
+      board[progress.cpuMove] = 'X';
+      if (checkWin(board)) {
+        progress.result = 'failed';
+        progress.failReason = 'The CPU won.';
+      }
+    }
+  }
+  return progress;
+}
+
+async function recordPuzzleSolve(fid: string, date: string, moves: number[]): Promise<boolean> {
+  try {
+    return await statsRepository.recordPuzzleSolve({ fid, date, moves, solvedAt: new Date() });
+  } catch (error) {
+    logger.error('Error recording puzzle solve', { playerFid: fid, error });
+    return false;
+  }
+}
+
+async function countPuzzleSolves(date: string): Promise<number> {
+  try {
+    return await statsRepository.countPuzzleSolves(date);
+  } catch (error) {
+    logger.error('Error counting puzzle solves', { date, error });
+    return 0;
+  }
+}
+
+// A streak still counts if the last solve was today or yesterday
+function currentDailyStreak(record: UserRecord, today: string): number {
+  const yesterday = new Date(Date.parse(today) - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return record.lastDailySolve === today || record.lastDailySolve === yesterday ? record.dailyStreak : 0;
+}
+
+app.frame('/daily', async (c) => {
+  const rejection = await rejectUnverifiedFrame(c) ?? await rejectTooManyMoves(c);
+  if (rejection) return rejection;
+  const { buttonValue, inputText, status, frameData } = c;
+  const fid = frameData?.fid;
+  const today = getPuzzleDate();
+
+  let state: DailyPuzzleState = { date: today, playerMoves: [], fid };
+  let notice: string | null = null;
+  let justSolved = false;
+
+  if (status === 'response' && buttonValue && buttonValue.startsWith('daily:')) {
+    try {
+      const [, token, moveIndex] = buttonValue.split(':');
+      const submitted = verifyDailyPuzzleState(token);
+      if (submitted.fid !== fid) {
+        throw new InvalidGameStateError(`Puzzle belongs to FID ${submitted.fid}, not ${fid}`);
+      }
+
+      if (submitted.date !== today) {
+        notice = "That puzzle has expired. Here is today's!";
+      } else {
+        state = submitted;
+        const before = playDailyPuzzle(state.date, state.playerMoves);
+        const move = moveIndex === 'input' ? parseCoordinate(inputText) : parseInt(moveIndex);
+
+        if (move === null) {
+          notice = describeInvalidCoordinate(inputText);
+        } else if (before.result) {
+          notice = 'This attempt is over. Tap Retry to try again.';
+        } else if (before.board[move] !== null) {
+          notice = `${COORDINATES[move]} is already taken! Choose an empty cell.`;
+        } else {
+          state = { ...state, playerMoves: [...state.playerMoves, move] };
+          justSolved = playDailyPuzzle(state.date, state.playerMoves).result === 'solved';
+        }
+      }
+    } catch (error) {
+      if (error instanceof InvalidGameStateError) {
+        logger.warn('Rejected puzzle state', { reason: error.message });
+        return renderInvalidStateFrame(c);
+      }
+      logger.error('Error processing puzzle move', { error });
+      notice = 'An error occurred while processing your move. Please try again.';
+    }
+  }
+
+  const progress = playDailyPuzzle(state.date, state.playerMoves);
+  const movesLeft = progress.movesToWin - state.playerMoves.length;
+
+  let message: string;
+  if (progress.result === 'solved') {
+    message = `Solved in ${state.playerMoves.length}! 🧩`;
+    if (justSolved && fid) {
+      const counted = await recordPuzzleSolve(fid.toString(), state.date, state.playerMoves);
+      const record = await getUserRecord(fid.toString());
+      message += counted ? ` Daily streak: ${record.dailyStreak}` : ' Already counted for today.';
+    }
+  } else if (progress.result === 'failed') {
+    message = `${progress.failReason} Try again!`;
+  } else {
+    const cpuMoved = progress.cpuMove !== null ? `CPU blocked at ${COORDINATES[progress.cpuMove]}. ` : '';
+    message = `${cpuMoved}Win in ${movesLeft} move${movesLeft === 1 ? '' : 's'}. You are O.`;
+  }
+  if (notice) {
+    message = `${notice} ${message}`;
+  }
+
+  const token = signState('daily', state);
+  const availableMoves = progress.board.reduce((acc, cell, index) => {
+    if (cell === null) acc.push(index);
+    return acc;
+  }, [] as number[]);
+
+  const intents = progress.result === 'solved'
+    ? [
+        <Button action="/daily/solvers">Solvers 🧩</Button>,
+        <Button action="/difficulty">Play CPU</Button>,
+        <Button.Link href={composeCastUrl(`I solved today's Tic-Tac-Maxi puzzle in ${state.playerMoves.length}! 🧩 Can you? ${config.credits}`, appUrl('/daily'))}>
+          Share
+        </Button.Link>
+      ]
+    : progress.result === 'failed'
+    ? [
+        <Button action="/daily">Retry</Button>,
+        <Button action="/daily/solvers">Solvers 🧩</Button>
+      ]
+    : [
+        <TextInput placeholder="Enter a cell, e.g. B2" />,
+        <Button value={`daily:${token}:input`}>Play ✔</Button>,
+        ...shuffleArray(availableMoves, Math.random).slice(0, 2).map((index) =>
+          <Button value={`daily:${token}:${index}`}>
+            {COORDINATES[index]}
+          </Button>
+        ),
+        <Button action="/daily/solvers">Solvers 🧩</Button>
+      ];
+
+  return c.res({
+    image: (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column' as const,
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: '1080px',
+        height: '1080px',
+        backgroundImage: `url(${config.assets.gameBackground})`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        color: 'white',
+        fontSize: '36px',
+        fontFamily: '"Silkscreen", sans-serif',
+      }}>
+        <div style={{ display: 'flex', fontSize: '44px', marginBottom: '20px' }}>Daily Puzzle {state.date}</div>
+        {renderBoard(progress.board)}
+        <div style={{
+          marginTop: '40px',
+          maxWidth: '900px',
+          textAlign: 'center',
+          backgroundColor: 'rgba(255, 255, 255, 0.7)',
+          padding: '20px',
+          borderRadius: '10px',
+          color: 'black',
+          fontFamily: '"Silkscreen", sans-serif',
+          fontWeight: 700,
+        }}>
+          {message}
+        </div>
+      </div>
+    ),
+    intents,
+  });
+});
+
+app.frame('/daily/solvers', async (c) => {
+  const { frameData } = c;
+  const fid = frameData?.fid;
+  const today = getPuzzleDate();
+
+  const [solvers, userRecord] = await Promise.all([
+    countPuzzleSolves(today),
+    fid ? getUserRecord(fid.toString()) : Promise.resolve(null),
+  ]);
+  const solvedToday = userRecord?.lastDailySolve === today;
+
+  return renderMessageFrame(c, [
+    `${solvers} ${solvers === 1 ? 'player has' : 'players have'} solved today's puzzle.`,
+    userRecord
+      ? solvedToday
+        ? `You solved it! Daily streak: ${currentDailyStreak(userRecord, today)} (best ${userRecord.longestDailyStreak}).`
+        : `You haven't solved it yet. Daily streak: ${currentDailyStreak(userRecord, today)}.`
+      : '',
+  ].join(' '), [
+    solvedToday ? <Button action="/difficulty">Play CPU</Button> : <Button action="/daily">Try Puzzle</Button>,
+    <Button action="/leaderboard">Leaderboard</Button>
+  ]);
+});
+
+// Ultimate Tic-Tac-Toe: nine small boards inside a big one. The cell you play picks the small
+// board your opponent has to answer in, or any open board if that one is already decided.
+type UltimatePosition = {
+  cells: (string | null)[];  // 81 cells, small board by small board
+  winners: (string | null)[];  // Per small board: 'O' or 'X' once won, 'T' if it filled up without a line
+  nextBoard: number | null;  // Small board the next move has to go in, null for any open board
+  result: GameOutcome | null;  // From the player's (O's) side
+}
+
+// Easy and medium mix in random moves the same way getCPUMove does
+const ULTIMATE_SEARCH: Record<Difficulty, { depth: number, randomChance: number }> = {
+  easy: { depth: 1, randomChance: 0.5 },
+  medium: { depth: 2, randomChance: 0.3 },
+  hard: { depth: 3, randomChance: 0 },
+  impossible: { depth: 4, randomChance: 0 },
+};
+
+const ULTIMATE_WIN_SCORE = 100000;
+
+function emptyUltimatePosition(): UltimatePosition {
+  return { cells: Array(81).fill(null), winners: Array(9).fill(null), nextBoard: null, result: null };
+}
+
+function getUltimateMoves(position: UltimatePosition): number[] {
+  if (position.result) return [];
+  const boards = position.nextBoard !== null
+    ? [position.nextBoard]
+    : [...Array(9).keys()].filter(board => position.winners[board] === null);
+  return boards.flatMap(board =>
+    [...Array(9).keys()].map(cell => board * 9 + cell).filter(index => position.cells[index] === null)
+  );
+}
+
+function applyUltimateMove(position: UltimatePosition, move: number, mark: 'O' | 'X'): UltimatePosition {
+  const board = Math.floor(move / 9);
+  const cells = [...position.cells];
+  const winners = [...position.winners];
+  cells[move] = mark;
+
+  const smallBoard = cells.slice(board * 9, board * 9 + 9);
+  if (checkWin(smallBoard)) {
+    winners[board] = mark;
+  } else if (smallBoard.every(cell => cell !== null)) {
+    winners[board] = 'T';
+  }
+
+  // Tied boards count as empty here so they never complete a line
+  let result: UltimatePosition['result'] = null;
+  if (checkWin(winners.map(winner => winner === 'T' ? null : winner))) {
+    result = mark === 'O' ? 'win' : 'lose';
+  } else if (winners.every(winner => winner !== null)) {
+    result = 'draw';
+  }
+
+  const sentTo = move % 9;
+  return { cells, winners, nextBoard: winners[sentTo] === null ? sentTo : null, result };
+}
+
+// Rebuilds the position from the move list and rejects any move that breaks the rules.
+// CPU moves aren't searched again here. The moves come from the session store, which only the
+// server writes to, and a deep search for every ply on every request would be too slow.
+function replayUltimate(moves: number[]): UltimatePosition {
+  let position = emptyUltimatePosition();
+  moves.forEach((move, ply) => {
+    if (!getUltimateMoves(position).includes(move)) {
+      throw new InvalidGameStateError(`Ultimate move ${ply + 1} is not a legal move: ${move}`);
+    }
+    position = applyUltimateMove(position, move, ply % 2 === 0 ? 'O' : 'X');
+  });
+  return position;
+}
+
+// Won boards and big-board lines count far more than small-board lines, lines through a tied board are dead
+function evaluateUltimate(position: UltimatePosition, player: string): number {
+  let score = 0;
+  for (const winner of position.winners) {
+    if (winner === player) score += 30;
+    else if (winner !== null && winner !== 'T') score -= 30;
+  }
+  for (const line of getWinLines('classic')) {
+    const marks = line.map(board => position.winners[board]);
+    if (marks.includes('T')) continue;
+    const own = marks.filter(mark => mark === player).length;
+    const other = marks.filter(mark => mark !== null && mark !== player).length;
+    if (other === 0) score += own * own * 20;
+    else if (own === 0) score -= other * other * 20;
+  }
+  for (let board = 0; board < 9; board++) {
+    if (position.winners[board] === null) {
+      score += evaluatePosition(position.cells.slice(board * 9, board * 9 + 9), player, 'classic');
+    }
+  }
+  return score;
+}
+
+// Depth-limited alpha-beta from `player`'s point of view, like minimax
+function ultimateSearch(position: UltimatePosition, player: 'O' | 'X', toMove: 'O' | 'X', depth: number, maxDepth: number, alpha: number, beta: number): number {
+  if (position.result) {
+    if (position.result === 'draw') return 0;
+    const winner = position.result === 'win' ? 'O' : 'X';
+    return winner === player ? ULTIMATE_WIN_SCORE - depth : depth - ULTIMATE_WIN_SCORE;
+  }
+  if (depth >= maxDepth) {
+    return evaluateUltimate(position, player);
+  }
+
+  const next = toMove === 'X' ? 'O' : 'X';
+  const maximizing = toMove === player;
+  let best = maximizing ? -Infinity : Infinity;
+
+  for (const move of getUltimateMoves(position)) {
+    const score = ultimateSearch(applyUltimateMove(position, move, toMove), player, next, depth + 1, maxDepth, alpha, beta);
+    if (maximizing) {
+      best = Math.max(best, score);
+      alpha = Math.max(alpha, score);
+    } else {
+      best = Math.min(best, score);
+      beta = Math.min(beta, score);
+    }
+    if (beta <= alpha) break;
+  }
+  return best;
+}
+
+function getUltimateCPUMove(position: UltimatePosition, difficulty: Difficulty, rng: Rng): number {
+  const moves = getUltimateMoves(position);
+  const { depth, randomChance } = ULTIMATE_SEARCH[difficulty];
+  if (rng() < randomChance) {
+    return moves[Math.floor(rng() * moves.length)];
+  }
+
+  let bestScore = -Infinity;
+  let bestMoves: number[] = [];
+  for (const move of moves) {
+    const score = ultimateSearch(applyUltimateMove(position, move, 'X'), 'X', 'O', 1, depth, -Infinity, Infinity);
+    if (score > bestScore) {
+      bestScore = score;
+      bestMoves = [move];
+    } else if (score === bestScore) {
+      bestMoves.push(move);
+    }
+  }
+  return bestMoves[Math.floor(rng() * bestMoves.length)];
+}
+
+// Moves are named "<board> <cell>", both in A1-C3, so "B2 A1" is the top-left cell of the middle board
+function describeUltimateMove(move: number): string {
+  return `${COORDINATES[Math.floor(move / 9)]} ${COORDINATES[move % 9]}`;
+}
+
+// Accepts "B2 A1" (or "b2a1"), or just the cell when the next board is already decided
+function parseUltimateMove(input: string | undefined, nextBoard: number | null): number | null {
+  const coordinates = ((input || '').toUpperCase().match(/[A-C][1-3]/g) || []).map(name => COORDINATES.indexOf(name));
+  if (coordinates.length === 2) return coordinates[0] * 9 + coordinates[1];
+  if (coordinates.length === 1 && nextBoard !== null) return nextBoard * 9 + coordinates[0];
+  return null;
+}
+
+// renderBoard's labelled grid with a small board in every square. Boards the next move
+// can go in are outlined in gold, decided boards show their winner instead of cells.
+// Empty cells are drawn as dots.
+function renderUltimateBoard(position: UltimatePosition) {
+  const playable = new Set(getUltimateMoves(position).map(move => Math.floor(move / 9)));
+  return renderBoard(position.winners, (winners, board, cellSize) => (
+    <div key={board} style={{
+      width: `${cellSize}px`,
+      height: `${cellSize}px`,
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      fontSize: `${Math.round(cellSize * 0.6)}px`,
+      background: 'linear-gradient(135deg, #0F0F2F 0%, #303095 100%)',
+      border: `4px solid ${playable.has(board) ? '#FFD700' : 'black'}`,
+    }}>
+      {winners[board]
+        ? (winners[board] === 'T' ? '-' : winners[board])
+        : [0, 1, 2].map(row => (
+            // One text line per row, separate cell elements for all 81 cells make the image URL huge
+            <div key={row} style={{ display: 'flex', fontSize: '44px', letterSpacing: '12px', whiteSpace: 'pre' }}>
+              {position.cells.slice(board * 9 + row * 3, board * 9 + row * 3 + 3).map(cell => cell || '·').join(' ')}
+            </div>
+          ))}
+    </div>
+  ));
+}
+
+function newUltimateState(difficulty: Difficulty, fid: number | undefined): UltimateState {
+  return { difficulty, gameId: createGameId(), fid, seed: createSeed(), moves: [], startedAt: Date.now() };
+}
+
+function renderUltimateGame(c: FrameContext<{ Variables: NeynarVariables }>, state: UltimateState, message: string, newBadges: BadgeId[] = []) {
+  const position = replayUltimate(state.moves);
+  const quickPicks = shuffleArray(getUltimateMoves(position), rngForTurn(state.seed, state.moves.length, 'buttons')).slice(0, 3);
+
+  const intents = position.result
+    ? [
+        <Button action="/difficulty">Play Again</Button>,
+        <Button action="/share" value="page:2">Your Stats</Button>,
+        newBadges.length > 0 && state.fid
+          ? <Button.Link href={badgeShareUrl(state.fid.toString(), newBadges[0])}>Share Badge 🏅</Button.Link>
+          : <Button action={config.endpoints.tokenFrame}>/thepod FT</Button>
+      ]
+    : [
+        <TextInput placeholder={position.nextBoard !== null ? 'Enter a cell, e.g. A1' : 'Board then cell, e.g. B2 A1'} />,
+        <Button action="/ultimate" value={`ult:${state.gameId}:input`}>Play ✔</Button>,
+        ...quickPicks.map(move =>
+          <Button action="/ultimate" value={`ult:${state.gameId}:${move}`}>
+            {describeUltimateMove(move)}
+          </Button>
+        )
+      ];
 
   return c.res({
     image: (
@@ -982,21 +3318,22 @@ app.frame('/game', async (c) => {
         justifyContent: 'center',
         width: '1080px',
         height: '1080px',
-        backgroundImage: 'url(https://bafybeidmy2f6x42tjkgtrsptnntcjulfehlvt3ddjoyjbieaz7sywohpxy.ipfs.w3s.link/Frame%2039%20(1).png)',
+        backgroundImage: `url(${config.assets.gameBackground})`,
         backgroundSize: 'cover',
         backgroundPosition: 'center',
         color: 'white',
         fontSize: '36px',
         fontFamily: '"Silkscreen", sans-serif',
       }}>
-        {renderBoard(state.board)}
-        <div style={{ 
-          marginTop: '40px', 
-          maxWidth: '900px', 
-          textAlign: 'center', 
-          backgroundColor: 'rgba(255, 255, 255, 0.7)', 
-          padding: '20px', 
-          borderRadius: '10px', 
+        <div style={{ display: 'flex', fontSize: '44px', marginBottom: '20px' }}>Ultimate · {state.difficulty}</div>
+        {renderUltimateBoard(position)}
+        <div style={{
+          marginTop: '40px',
+          maxWidth: '900px',
+          textAlign: 'center',
+          backgroundColor: 'rgba(255, 255, 255, 0.7)',
+          padding: '20px',
+          borderRadius: '10px',
           color: 'black',
           fontFamily: '"Silkscreen", sans-serif',
           fontWeight: 700,
@@ -1005,40 +3342,162 @@ app.frame('/game', async (c) => {
         </div>
       </div>
     ),
-    intents: intents,
+    intents,
   });
+}
+
+// New ultimate games start from /game, this route plays the moves of the stored session
+app.frame('/ultimate', async (c) => {
+  const rejection = await rejectUnverifiedFrame(c) ?? await rejectTooManyMoves(c);
+  if (rejection) return rejection;
+  const { buttonValue, inputText, status, frameData } = c;
+  const fid = frameData?.fid;
+
+  let state = newUltimateState('medium', fid);
+  let message = 'New Ultimate game started on medium! Play in any board.';
+  let newBadges: BadgeId[] = [];
+  // Cleared while a request for an existing game is processed, so a failed move never reaches the session
+  let saveState = true;
+
+  const renderRejectedGame = (error: unknown) => {
+    if (error instanceof GameSessionError) {
+      return renderInvalidStateFrame(c, error.message);
+    }
+    if (error instanceof InvalidGameStateError) {
+      logger.warn('Rejected ultimate state', { reason: error.message });
+      return renderInvalidStateFrame(c);
+    }
+    return null;
+  };
+
+  // Resume from the /difficulty prompt, or the player's stored ultimate game when opened without a move.
+  // Any other unfinished game is forfeited for the new one, players keep one at a time.
+  if (status === 'response' && (!buttonValue || buttonValue.startsWith('resume:'))) {
+    try {
+      const session = buttonValue ? null : await getResumableSession(fid);
+      if (buttonValue || session?.mode === 'ultimate') {
+        state = session?.mode === 'ultimate' ? session.state : await loadUltimateSession(buttonValue!.slice('resume:'.length), fid);
+        saveState = false;
+        message = `Welcome back! Your Ultimate game on ${state.difficulty} continues.`;
+      } else if (session) {
+        await forfeitSession(session);
+      }
+    } catch (error) {
+      const rejected = renderRejectedGame(error);
+      if (rejected) return rejected;
+      logger.error('Error resuming ultimate game', { error });
+    }
+  }
+
+  if (status === 'response' && buttonValue && buttonValue.startsWith('ult:')) {
+    try {
+      saveState = false;
+      const [, sessionId, moveIndex] = buttonValue.split(':');
+      state = await loadUltimateSession(sessionId, fid);
+
+      let position = replayUltimate(state.moves);
+      const move = moveIndex === 'input' ? parseUltimateMove(inputText, position.nextBoard) : parseInt(moveIndex);
+      if (moveIndex !== 'input' && (move === null || !Number.isInteger(move))) {
+        throw new InvalidGameStateError(`Move index out of range: ${moveIndex}`);
+      }
+      const username = fid ? await getUsername(fid.toString()) : 'Player';
+
+      if (position.result) {
+        message = 'Game is over. Start a new game!';
+      } else if (move === null) {
+        message = position.nextBoard !== null
+          ? `Type a cell in board ${COORDINATES[position.nextBoard]}, like A1, then tap Play.`
+          : 'Type a board and a cell, like B2 A1, then tap Play.';
+      } else if (!getUltimateMoves(position).includes(move)) {
+        message = position.nextBoard !== null
+          ? `You have to play in board ${COORDINATES[position.nextBoard]}.`
+          : `${describeUltimateMove(move)} is not open. Choose an empty cell in an open board.`;
+      } else {
+        state = { ...state, moves: [...state.moves, move] };
+        position = applyUltimateMove(position, move, 'O');
+        saveState = true;
+        message = `${username} played ${describeUltimateMove(move)}.`;
+
+        if (!position.result) {
+          const computerMove = getUltimateCPUMove(position, state.difficulty, rngForTurn(state.seed, state.moves.length));
+          state = { ...state, moves: [...state.moves, computerMove] };
+          position = applyUltimateMove(position, computerMove, 'X');
+          message += ` Computer played ${describeUltimateMove(computerMove)}.`;
+        }
+
+        if (position.result === 'win') {
+          message = `${username} wins the big board! Game over.`;
+        } else if (position.result === 'lose') {
+          message = 'Computer wins the big board! Game over.';
+        } else if (position.result === 'draw') {
+          message += " It's a draw. Game over.";
+        } else {
+          message += position.nextBoard !== null
+            ? ` Your turn in board ${COORDINATES[position.nextBoard]}.`
+            : ' Your turn, play in any open board.';
+        }
+
+        if (position.result && fid) {
+          const recording = await recordGameResult(state.gameId, {
+            fid: fid.toString(),
+            difficulty: state.difficulty,
+            variant: 'ultimate',
+            moves: state.moves,
+            board: position.cells,
+            result: position.result,
+            startedAt: new Date(state.startedAt),
+            endedAt: new Date(),
+          });
+          newBadges = recording.badges;
+          if (recording.heldForReview) {
+            message += ' This result is held for review and was not counted.';
+          }
+          if (newBadges.length > 0) {
+            message += ` 🏅 Unlocked: ${newBadges.map(id => BADGES[id].name).join(', ')}!`;
+          }
+        }
+      }
+    } catch (error) {
+      const rejected = renderRejectedGame(error);
+      if (rejected) return rejected;
+      logger.error('Error processing ultimate move', { error });
+      message = 'An error occurred while processing your move. Please try again.';
+    }
+  }
+
+  if (saveState) {
+    try {
+      await saveUltimateSession(state);
+    } catch (error) {
+      logger.error('Error saving game session', { gameId: state.gameId, error });
+      message = 'Your game could not be saved. Please try again.';
+    }
+  }
+
+  return renderUltimateGame(c, state, message, newBadges);
 });
 
 // Update the /next routes
 app.frame('/next', (c) => {
   const result = c.req.query('result');
-  console.log('Received result:', result);
-  console.log('Full query string:', c.req.url.search);
 
   let gifUrl;
 
   switch (result) {
     case 'win':
-      gifUrl = WIN_GIF_URL;
-      console.log('Selected win GIF');
+      gifUrl = config.assets.winGif;
       break;
     case 'lose':
-      gifUrl = LOSE_GIF_URL;
-      console.log('Selected lose GIF');
+      gifUrl = config.assets.loseGif;
       break;
     case 'draw':
-      gifUrl = DRAW_GIF_URL;
-      console.log('Selected draw GIF');
+      gifUrl = config.assets.drawGif;
       break;
     default:
-      gifUrl = WIN_GIF_URL;
-      console.log('Default to draw GIF. Unexpected result:', result);
+      gifUrl = config.assets.winGif;
+      logger.warn('Unexpected game result, showing the win GIF', { result });
   }
 
-  console.log('Final GIF URL:', gifUrl);
-
-  const baseUrl = 'https://podplay.vercel.app';
-
   const html = `
     <!DOCTYPE html>
     <html lang="en">
@@ -1053,9 +3512,9 @@ app.frame('/next', (c) => {
       <meta property="fc:frame:button:2" content="Your Stats">
       <meta property="fc:frame:button:1:action" content="post">
       <meta property="fc:frame:button:2:action" content="post">
-      <meta property="fc:frame:post_url" content="${baseUrl}/api/next">
-      <meta property="fc:frame:button:1:target" content="${baseUrl}/api/game">
-      <meta property="fc:frame:button:2:target" content="${baseUrl}/api/share">
+      <meta property="fc:frame:post_url" content="${appUrl('/next')}">
+      <meta property="fc:frame:button:1:target" content="${appUrl('/game')}">
+      <meta property="fc:frame:button:2:target" content="${appUrl('/share')}">
     </head>
     <body>
       <h1>Game Result: ${result}</h1>
@@ -1063,65 +3522,158 @@ app.frame('/next', (c) => {
     </html>
   `;
 
-  console.log('Generated HTML:', html);
-
   return new Response(html, {
     headers: { 'Content-Type': 'text/html' },
   });
 });
 
-// Add this function to get user record
-async function getUserRecord(fid: string): Promise<UserRecord> {
-  try {
-    const database = getDb();
-    const userDoc = await database.collection('users').doc(fid).get();
-    if (!userDoc.exists) {
-      return { wins: 0, losses: 0, ties: 0, easyWins: 0, mediumWins: 0, hardWins: 0, timestamp: admin.firestore.Timestamp.fromDate(new Date()) };
-    }
-    return userDoc.data() as UserRecord;
-  } catch (error) {
-    console.error(`Error getting user record for FID ${fid}:`, error);
-    return { wins: 0, losses: 0, ties: 0, easyWins: 0, mediumWins: 0, hardWins: 0, timestamp: admin.firestore.Timestamp.fromDate(new Date()) };
+// Second page of /share: per-difficulty record, win rate and streaks
+async function renderStatsBreakdown(c: FrameContext<{ Variables: NeynarVariables }>, fid: number | undefined) {
+  let username = 'Player';
+  let userRecord = emptyUserRecord();
+  if (fid) {
+    const [profile, record] = await Promise.all([
+      getProfile(fid.toString()),
+      getUserRecord(fid.toString())
+    ]);
+    username = profile.username;
+    userRecord = record;
   }
+
+  const labels: Record<Difficulty, string> = { easy: '🟢 Easy', medium: '🟡 Medium', hard: '🔴 Hard', impossible: '⚫ Impossible' };
+
+  return c.res({
+    image: (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column' as const,
+        justifyContent: 'center',
+        alignItems: 'center',
+        width: '1080px',
+        height: '1080px',
+        backgroundImage: `url(${config.assets.statsBackground})`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        color: 'white',
+        fontFamily: 'Arial, sans-serif',
+      }}>
+        <h1 style={{ fontSize: '52px', marginBottom: '20px' }}>{username}'s Breakdown</h1>
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column' as const,
+          alignItems: 'flex-start',
+          backgroundColor: 'rgba(0, 0, 0, 0.6)',
+          padding: '20px',
+          borderRadius: '10px',
+          width: '80%',
+        }}>
+          {DIFFICULTIES.map(difficulty => {
+            const wins = userRecord[`${difficulty}Wins`];
+            const losses = userRecord[`${difficulty}Losses`];
+            const ties = userRecord[`${difficulty}Ties`];
+            const played = wins + losses + ties;
+            return (
+              <div key={difficulty} style={{ display: 'flex', justifyContent: 'space-between', width: '100%', marginBottom: '10px' }}>
+                <span style={{ fontSize: '36px' }}>{labels[difficulty]}:</span>
+                <span style={{ fontSize: '36px', fontWeight: 'bold' }}>
+                  {wins}W - {losses}L - {ties}T ({played > 0 ? `${Math.round((wins / played) * 100)}%` : '-'})
+                </span>
+              </div>
+            );
+          })}
+          {GAME_MODES.filter(mode => mode !== 'classic').map(mode => {
+            const { wins, losses, ties } = userRecord.variantStats?.[mode] || { wins: 0, losses: 0, ties: 0 };
+            const played = wins + losses + ties;
+            return (
+              <div key={mode} style={{ display: 'flex', justifyContent: 'space-between', width: '100%', marginBottom: '10px' }}>
+                <span style={{ fontSize: '36px' }}>🔲 {getModeLabel(mode)}:</span>
+                <span style={{ fontSize: '36px', fontWeight: 'bold' }}>
+                  {wins}W - {losses}L - {ties}T ({played > 0 ? `${Math.round((wins / played) * 100)}%` : '-'})
+                </span>
+              </div>
+            );
+          })}
+          {(['first', 'second'] as const).map(position => {
+            const { wins, losses, ties } = userRecord.positionStats?.[position] || { wins: 0, losses: 0, ties: 0 };
+            const played = wins + losses + ties;
+            return (
+              <div key={position} style={{ display: 'flex', justifyContent: 'space-between', width: '100%', marginBottom: '10px' }}>
+                <span style={{ fontSize: '36px' }}>{position === 'first' ? '1️⃣ Going First' : '2️⃣ Going Second'}:</span>
+                <span style={{ fontSize: '36px', fontWeight: 'bold' }}>
+                  {wins}W - {losses}L - {ties}T ({played > 0 ? `${Math.round((wins / played) * 100)}%` : '-'})
+                </span>
+              </div>
+            );
+          })}
+          <div style={{ display: 'flex', justifyContent: 'space-between', width: '100%', marginBottom: '10px' }}>
+            <span style={{ fontSize: '36px' }}>Current Win Streak:</span>
+            <span style={{ fontSize: '36px', fontWeight: 'bold' }}>{userRecord.currentStreak}</span>
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', width: '100%', marginBottom: '10px' }}>
+            <span style={{ fontSize: '36px' }}>Longest Win Streak:</span>
+            <span style={{ fontSize: '36px', fontWeight: 'bold' }}>{userRecord.longestStreak}</span>
+          </div>
+        </div>
+        <p style={{ fontSize: '28px', marginTop: '20px' }}>{config.credits}</p>
+      </div>
+    ),
+    intents: [
+      <Button action="/share">⬅ Back</Button>,
+      <Button action="/difficulty">Play Again</Button>,
+      <Button action={config.endpoints.tokenFrame}>/thepod FT</Button>,
+      <Button action="/history">My Games</Button>
+    ],
+  });
 }
 
-// Then update the /share route to use getUserRecord instead of userRecord
 app.frame('/share', async (c) => {
-  console.log('Entering /share route');
-  const { frameData } = c;
+  // Refreshes the player's stored POD Score
+  const rejection = await rejectUnverifiedFrame(c);
+  if (rejection) return rejection;
+  const { buttonValue, frameData } = c;
   const fid = frameData?.fid;
+
+  if (buttonValue === 'page:2') {
+    return renderStatsBreakdown(c, fid);
+  }
   const result = c.req.query('result');
   const state = c.req.query('state');
 
   let profileImage: string | null = null;
-  let userRecord = { wins: 0, losses: 0, ties: 0 };
+  let userRecord = emptyUserRecord();
   let totalGamesPlayed = 0;
   let podScore = 0;
   let ownsThepodToken = false;
   let thepodTokenBalance = 0;
+  let tokenSource: FanTokenBalance['source'] = 'unknown';
   let username = 'Player';
+  let pvpRecord: PvpRecord = { wins: 0, losses: 0, ties: 0 };
+  let badges: BadgeId[] = [];
 
   if (fid) {
     try {
-      const [profileImageResult, userRecordResult, totalGamesResult, fanTokenResult, usernameResult] = await Promise.all([
-        getUserProfilePicture(fid.toString()),
+      const [profileResult, userRecordResult, totalGamesResult, fanTokenResult, pvpRecordResult] = await Promise.all([
+        getProfile(fid.toString()),
         getUserRecord(fid.toString()),
         getTotalGamesPlayed(fid.toString()),
         checkFanTokenOwnership(fid.toString()),
-        getUsername(fid.toString())
+        getPvpRecord(fid.toString())
       ]);
 
-      profileImage = profileImageResult;
+      profileImage = profileResult.profileImage;
       userRecord = userRecordResult;
       totalGamesPlayed = totalGamesResult;
       ownsThepodToken = fanTokenResult.ownsToken;
-      thepodTokenBalance = fanTokenResult.balance;
-      username = usernameResult;
-      podScore = calculatePODScore(userRecord.wins, userRecord.ties, userRecord.losses, totalGamesPlayed, thepodTokenBalance);
-
-      console.log(`Profile image URL for FID ${fid}:`, profileImage);
+      thepodTokenBalance = fanTokenResult.balance ?? 0;
+      tokenSource = fanTokenResult.source;
+      username = profileResult.username;
+      pvpRecord = pvpRecordResult;
+      badges = (Object.keys(BADGES) as BadgeId[]).filter(id => userRecordResult.badges?.[id]);
+      podScore = calculatePODScore(userRecord, thepodTokenBalance);
+      // Only a live balance replaces the stored one, otherwise the stored score keeps its last token bonus
+      await updateStoredPODScore(fid.toString(), tokenSource === 'live' ? thepodTokenBalance : undefined);
     } catch (error) {
-      console.error(`Error fetching data for FID ${fid}:`, error);
+      logger.error('Error fetching data', { playerFid: fid, error });
     }
   }
 
@@ -1134,7 +3686,7 @@ app.frame('/share', async (c) => {
         alignItems: 'center',
         width: '1080px',
         height: '1080px',
-        backgroundImage: 'url(https://bafybeiax2usqi6g7cglrvxa5n3vw7vimqruklebxnmmpm5bo7ah4yldhwi.ipfs.w3s.link/Frame%2039%20(2).png)',
+        backgroundImage: `url(${config.assets.statsBackground})`,
         backgroundSize: 'cover',
         backgroundPosition: 'center',
         color: 'white',
@@ -1182,31 +3734,61 @@ app.frame('/share', async (c) => {
         }}>
           <div style={{ display: 'flex', justifyContent: 'space-between', width: '100%', marginBottom: '10px' }}>
             <span style={{ fontSize: '36px' }}>POD Score:</span>
-            <span style={{ fontSize: '36px', fontWeight: 'bold' }}>{podScore}</span>
+            <span style={{ fontSize: '36px', fontWeight: 'bold' }}>{tokenSource === 'unknown' ? `${podScore} + ?` : podScore}</span>
           </div>
           <div style={{ display: 'flex', justifyContent: 'space-between', width: '100%', marginBottom: '10px' }}>
             <span style={{ fontSize: '36px' }}>Record:</span>
             <span style={{ fontSize: '36px', fontWeight: 'bold' }}>{userRecord.wins}W - {userRecord.losses}L - {userRecord.ties}T</span>
           </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', width: '100%', marginBottom: '10px' }}>
+            <span style={{ fontSize: '36px' }}>PvP Record:</span>
+            <span style={{ fontSize: '36px', fontWeight: 'bold' }}>{pvpRecord.wins}W - {pvpRecord.losses}L - {pvpRecord.ties}T</span>
+          </div>
           <div style={{ display: 'flex', justifyContent: 'space-between', width: '100%', marginBottom: '10px' }}>
             <span style={{ fontSize: '36px' }}>Total Games Played:</span>
             <span style={{ fontSize: '36px', fontWeight: 'bold' }}>{totalGamesPlayed}</span>
           </div>
           <div style={{ display: 'flex', justifyContent: 'space-between', width: '100%', marginBottom: '10px' }}>
             <span style={{ fontSize: '36px' }}>/thepod Fan Tokens owned:</span>
-            <span style={{ fontSize: '36px', fontWeight: 'bold' }}>{thepodTokenBalance.toFixed(2)}</span>
+            <span style={{ fontSize: '36px', fontWeight: 'bold' }}>
+              {tokenSource === 'unknown'
+                ? 'Unavailable'
+                : tokenSource === 'last-known'
+                ? `${thepodTokenBalance.toFixed(2)} (last known)`
+                : thepodTokenBalance.toFixed(2)}
+            </span>
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', width: '100%', marginBottom: '10px' }}>
+            <span style={{ fontSize: '36px' }}>Badges:</span>
+            <span style={{ fontSize: '36px', fontWeight: 'bold' }}>
+              {badges.length > 0 ? badges.map(id => BADGES[id].icon).join(' ') : 'None yet'}
+            </span>
           </div>
         </div>
-        <p style={{ fontSize: '28px', marginTop: '20px' }}>Frame by @goldie & @themrsazon</p>
+        <p style={{ fontSize: '28px', marginTop: '20px' }}>{config.credits}</p>
       </div>
     ),
     intents: [
       <Button action="/difficulty">Play Again</Button>,
-      <Button action="https://moxie-frames.airstack.xyz/stim?t=cid_thepod">/thepod FT</Button>,
-      <Button.Link href={`https://warpcast.com/~/compose?text=${encodeURIComponent(`I just played Tic-Tac-Maxi and my POD Score is ${podScore.toFixed(1)} 🕹️. Keep playing to increase your POD Score! Frame by @goldie & @themrsazon. Powered by @moxie.eth`)}&embeds[]=${encodeURIComponent(`https://podplay.vercel.app/api/shared-stats?wins=${userRecord.wins}&losses=${userRecord.losses}&ties=${userRecord.ties}&games=${totalGamesPlayed}&tokens=${thepodTokenBalance}&score=${podScore}&username=${encodeURIComponent(username)}`)}`}>
+      <Button action="/share" value="page:2">More Stats ➡</Button>,
+      <Button.Link href={composeCastUrl(
+        `I just played Tic-Tac-Maxi and my POD Score is ${podScore.toFixed(1)} 🕹️. Keep playing to increase your POD Score! ${config.credits}. Powered by @moxie.eth`,
+        appUrl(`/shared-stats?snapshot=${signState('stats', {
+          fid: fid ? fid.toString() : null,
+          username,
+          wins: userRecord.wins,
+          losses: userRecord.losses,
+          ties: userRecord.ties,
+          games: totalGamesPlayed,
+          tokens: tokenSource === 'live' ? thepodTokenBalance : null,
+          tokenSource,
+          score: podScore,
+          verifiedAt: Date.now(),
+        } satisfies SharedStats)}`)
+      )}>
         Share Stats
       </Button.Link>,
-      <Button.Link href={`https://warpcast.com/~/compose?text=${encodeURIComponent('Play Tic-Tac-Maxi by POD Play presented by @moxie.eth! Frame by @goldie & @themrsazon')}&embeds[]=${encodeURIComponent('https://podplay.vercel.app/api')}`}>
+      <Button.Link href={composeCastUrl(`Play Tic-Tac-Maxi by POD Play presented by @moxie.eth! ${config.credits}`, appUrl(''))}>
         Share Game
       </Button.Link>
     ],
@@ -1214,15 +3796,176 @@ app.frame('/share', async (c) => {
 });
 
 
+const HISTORY_PAGE_SIZE = 4
+
+app.frame('/history', async (c) => {
+  const { buttonValue, frameData } = c;
+  const fid = frameData?.fid;
+  const page = buttonValue && buttonValue.startsWith('page:') ? Math.max(0, parseInt(buttonValue.split(':')[1]) || 0) : 0;
+
+  let username = 'Player';
+  let history: { games: GameRecord[], hasMore: boolean } = { games: [], hasMore: false };
+  if (fid) {
+    [username, history] = await Promise.all([
+      getUsername(fid.toString()),
+      getGameHistory(fid.toString(), page, HISTORY_PAGE_SIZE)
+    ]);
+  }
+
+  const resultLabels = { win: 'Win 😁', lose: 'Loss 😔', draw: 'Draw' };
+
+  return c.res({
+    image: (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column' as const,
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: '1080px',
+        height: '1080px',
+        backgroundImage: `url(${config.assets.statsBackground})`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        color: 'white',
+        fontFamily: 'Arial, sans-serif',
+      }}>
+        <h1 style={{ fontSize: '52px', marginBottom: '20px' }}>{username}'s Games</h1>
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column' as const,
+          gap: '20px',
+          backgroundColor: 'rgba(0, 0, 0, 0.6)',
+          padding: '20px',
+          borderRadius: '10px',
+          width: '80%',
+        }}>
+          {history.games.length === 0 ? (
+            <span style={{ fontSize: '36px', textAlign: 'center' }}>
+              {page === 0 ? 'No games yet. Play one!' : 'No more games.'}
+            </span>
+          ) : history.games.map((game, i) => (
+            <div key={i} style={{ display: 'flex', alignItems: 'center', gap: '30px' }}>
+              {renderMiniBoard(game.board, Math.round(120 / Math.sqrt(game.board.length)), game.variant === 'ultimate')}
+              <div style={{ display: 'flex', flexDirection: 'column' as const, gap: '6px' }}>
+                <span style={{ fontSize: '36px', fontWeight: 'bold' }}>
+                  #{page * HISTORY_PAGE_SIZE + i + 1} {game.forfeited ? 'Forfeit 🏳️' : resultLabels[game.result]}
+                </span>
+                <span style={{ fontSize: '28px' }}>
+                  {getModeLabel(game.variant || 'classic')} {game.difficulty} · {Math.ceil(game.moves.length / 2)} moves · {game.endedAt.toISOString().slice(0, 10)}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    ),
+    intents: [
+      page > 0 && <Button value={`page:${page - 1}`}>⬅ Prev</Button>,
+      history.hasMore && <Button value={`page:${page + 1}`}>Next ➡</Button>,
+      <Button action="/share">Your Stats</Button>,
+      <Button action="/difficulty">Play</Button>
+    ],
+  });
+});
+
+const LEADERBOARD_SIZE = 8
+
+app.frame('/leaderboard', async (c) => {
+  const { buttonValue, frameData } = c;
+  const fid = frameData?.fid;
+  const requestedTab = buttonValue && buttonValue.startsWith('tab:') ? buttonValue.split(':')[1] : 'overall';
+  const tab: LeaderboardTab = Object.hasOwn(LEADERBOARD_TABS, requestedTab) ? requestedTab as LeaderboardTab : 'overall';
+  const { label } = LEADERBOARD_TABS[tab];
+
+  const [entries, viewerRank] = await Promise.all([
+    getLeaderboard(tab, LEADERBOARD_SIZE),
+    fid ? getPlayerRank(fid.toString(), tab) : Promise.resolve(null),
+  ]);
+  const profiles = await getProfiles(entries.map(entry => entry.fid));
+  const rows = entries.map(entry => {
+    const profile = profiles.get(entry.fid)!;
+    return { ...entry, username: profile.username, profileImage: profile.profileImage || entry.profileImage };
+  });
+
+  return c.res({
+    image: (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column' as const,
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: '1080px',
+        height: '1080px',
+        backgroundImage: `url(${config.assets.statsBackground})`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        color: 'white',
+        fontFamily: 'Arial, sans-serif',
+      }}>
+        <h1 style={{ fontSize: '52px', marginBottom: '20px' }}>Leaderboard: {label}</h1>
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column' as const,
+          gap: '12px',
+          backgroundColor: 'rgba(0, 0, 0, 0.6)',
+          padding: '20px',
+          borderRadius: '10px',
+          width: '80%',
+        }}>
+          {rows.length === 0 ? (
+            <span style={{ fontSize: '36px', textAlign: 'center' }}>No scores yet. Be the first!</span>
+          ) : rows.map((entry, i) => (
+            <div key={entry.fid} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', width: '100%' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '20px' }}>
+                <span style={{ fontSize: '36px', width: '60px' }}>{i + 1}.</span>
+                {entry.profileImage ? (
+                  <img src={entry.profileImage} alt="" width={56} height={56} style={{ borderRadius: '50%', objectFit: 'cover' }} />
+                ) : (
+                  <div style={{ width: '56px', height: '56px', borderRadius: '50%', backgroundColor: '#303095', display: 'flex' }} />
+                )}
+                <span style={{ fontSize: '36px', fontWeight: entry.fid === fid?.toString() ? 'bold' : 'normal' }}>{entry.username}</span>
+              </div>
+              <span style={{ fontSize: '36px', fontWeight: 'bold' }}>{entry.value}</span>
+            </div>
+          ))}
+        </div>
+        {fid && (
+          <p style={{ fontSize: '36px', marginTop: '20px' }}>
+            {viewerRank ? `Your rank: #${viewerRank.rank} (${viewerRank.value})` : 'Play a game to get ranked!'}
+          </p>
+        )}
+      </div>
+    ),
+    intents: [
+      ...(Object.keys(LEADERBOARD_TABS) as LeaderboardTab[])
+        .filter(other => other !== tab)
+        .map(other => <Button value={`tab:${other}`}>{LEADERBOARD_TABS[other].button}</Button>),
+      <Button action="/difficulty">Play</Button>
+    ],
+  });
+});
+
+// Cards shared from /share carry a signed snapshot. Older links with the numbers in the query string are refused.
 app.frame('/shared-stats', async (c) => {
-  const { wins, losses, ties, games, tokens, score, username } = c.req.query();
-  
-  // Fetch the profile image
-  let profileImage: string | null = null;
+  let stats: SharedStats;
   try {
-    profileImage = await getUserProfilePicture(username as string);
+    stats = verifySharedStats(c.req.query('snapshot') || '');
   } catch (error) {
-    console.error('Error fetching profile image:', error);
+    logger.warn('Rejected shared stats snapshot', { reason: error instanceof Error ? error.message : error });
+    return renderMessageFrame(c, 'These stats could not be verified.', [
+      <Button action="/howtoplay">Play</Button>
+    ]);
+  }
+  const { fid, username, wins, losses, ties, games, tokens, score, verifiedAt } = stats;
+
+  // Fetch the profile image
+  let profileImage: string | null = null;
+  if (fid) {
+    try {
+      profileImage = await getUserProfilePicture(fid);
+    } catch (error) {
+      logger.error('Error fetching profile image', { error });
+    }
   }
 
   return c.res({
@@ -1234,7 +3977,7 @@ app.frame('/shared-stats', async (c) => {
         alignItems: 'center',
         width: '1080px',
         height: '1080px',
-        backgroundImage: 'url(https://bafybeiax2usqi6g7cglrvxa5n3vw7vimqruklebxnmmpm5bo7ah4yldhwi.ipfs.w3s.link/Frame%2039%20(2).png)',
+        backgroundImage: `url(${config.assets.statsBackground})`,
         backgroundSize: 'cover',
         backgroundPosition: 'center',
         color: 'white',
@@ -1243,7 +3986,7 @@ app.frame('/shared-stats', async (c) => {
         {profileImage && (
           <img src={profileImage} alt="Profile" style={{ borderRadius: '50%', width: '150px', height: '150px', marginBottom: '20px' }} />
         )}
-        <h1 style={{ fontSize: '52px', marginBottom: '20px' }}>{decodeURIComponent(username as string)}'s Stats</h1>
+        <h1 style={{ fontSize: '52px', marginBottom: '20px' }}>{username}'s Stats</h1>
         <div style={{
           display: 'flex',
           flexDirection: 'column' as const,
@@ -1267,10 +4010,80 @@ app.frame('/shared-stats', async (c) => {
           </div>
           <div style={{ display: 'flex', justifyContent: 'space-between', width: '100%', marginBottom: '10px' }}>
             <span style={{ fontSize: '36px' }}>/thepod Fan Tokens owned:</span>
-            <span style={{ fontSize: '36px', fontWeight: 'bold' }}>{Number(tokens).toFixed(2)}</span>
+            <span style={{ fontSize: '36px', fontWeight: 'bold' }}>{tokens === null ? 'Unavailable' : tokens.toFixed(2)}</span>
           </div>
         </div>
-        <p style={{ fontSize: '28px', marginTop: '20px' }}>Frame by @goldie & @themrsazon</p>
+        <p style={{ fontSize: '28px', marginTop: '20px' }}>
+          ✅ Verified at {new Date(verifiedAt).toISOString().slice(0, 16).replace('T', ' ')} UTC
+        </p>
+        <p style={{ fontSize: '28px', marginTop: '0px' }}>{config.credits}</p>
+      </div>
+    ),
+    intents: [
+      <Button action="/howtoplay">Play</Button>
+    ]
+  });
+});
+
+// Shared badge frames are checked against the store, so a made-up URL shows nothing
+app.frame('/badge/:fid/:badgeId', async (c) => {
+  const { fid, badgeId } = c.req.param();
+  const badge = Object.hasOwn(BADGES, badgeId) ? BADGES[badgeId as BadgeId] : null;
+
+  let unlockedAt: Date | undefined;
+  let profile: Profile | null = null;
+  if (badge) {
+    try {
+      const [userRecord, profileResult] = await Promise.all([
+        getUserRecord(fid),
+        getProfile(fid)
+      ]);
+      unlockedAt = userRecord.badges?.[badgeId as BadgeId];
+      profile = profileResult;
+    } catch (error) {
+      logger.error('Error loading badge', { badgeId, playerFid: fid, error });
+    }
+  }
+
+  if (!badge || !unlockedAt || !profile) {
+    return renderMessageFrame(c, 'This badge has not been unlocked yet.', [
+      <Button action="/howtoplay">Play</Button>
+    ]);
+  }
+
+  return c.res({
+    image: (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column' as const,
+        justifyContent: 'center',
+        alignItems: 'center',
+        width: '1080px',
+        height: '1080px',
+        backgroundImage: `url(${config.assets.statsBackground})`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        color: 'white',
+        fontFamily: 'Arial, sans-serif',
+      }}>
+        <div style={{ fontSize: '200px', marginBottom: '20px' }}>{badge.icon}</div>
+        <h1 style={{ fontSize: '64px', marginBottom: '10px' }}>{badge.name}</h1>
+        <p style={{ fontSize: '40px', marginBottom: '40px' }}>{badge.description}</p>
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          backgroundColor: 'rgba(0, 0, 0, 0.6)',
+          padding: '20px',
+          borderRadius: '10px',
+        }}>
+          {profile.profileImage && (
+            <img src={profile.profileImage} alt="Profile" style={{ borderRadius: '50%', width: '100px', height: '100px', marginRight: '20px' }} />
+          )}
+          <span style={{ fontSize: '36px' }}>
+            Unlocked by {profile.username} on {unlockedAt.toISOString().slice(0, 10)}
+          </span>
+        </div>
+        <p style={{ fontSize: '28px', marginTop: '20px' }}>{config.credits}</p>
       </div>
     ),
     intents: [
@@ -1289,9 +4102,8 @@ app.frame('/shared-game', (c) => {
       currentPlayer: 'O',
       isGameOver: false
     };
-    console.log('Decoded state:', decodedState);
   } catch (error) {
-    console.error('Error decoding state:', error);
+    logger.error('Error decoding state', { error });
     decodedState = {
       board: Array(9).fill(null),
       currentPlayer: 'O',
@@ -1309,7 +4121,7 @@ app.frame('/shared-game', (c) => {
         justifyContent: 'center',
         width: '1080px',
         height: '1080px',
-        backgroundImage: 'url(https://bafybeidmy2f6x42tjkgtrsptnntcjulfehlvt3ddjoyjbieaz7sywohpxy.ipfs.w3s.link/Frame%2039%20(1).png)',
+        backgroundImage: `url(${config.assets.gameBackground})`,
         backgroundSize: 'cover',
         backgroundPosition: 'center',
         color: 'white',
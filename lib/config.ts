@@ -0,0 +1,165 @@
+// Deployment settings, read from the environment once at startup. Everything defaults to
+// production, so staging and preview deployments only set what differs.
+
+export type AppConfig = {
+  baseUrl: string;  // Public origin without a trailing slash, frame routes live under `${baseUrl}/api`
+  assets: {
+    logoGif: string;  // Landing frame
+    howToPlay: string;
+    menuBackground: string;  // Difficulty and setup frames
+    gameBackground: string;  // Boards
+    statsBackground: string;  // Stats, history and leaderboards
+    winGif: string;
+    loseGif: string;
+    drawGif: string;
+  };
+  featuredFids: string[];  // Avatars next to the player count on the landing frame
+  credits: string;  // Appended to casts and shown under stats frames
+  gameStateSecret: string | null;  // Signs state handed to clients. Only optional in development.
+  endpoints: {
+    airstackApi: string;
+    airstackHub: string;
+    hubRpc: string;  // host:port of the gRPC hub that verifies frame messages
+    moxieVestingApi: string;
+    moxieStatsApi: string;
+    tokenFrame: string;  // The /thepod fan token frame linked from game over and stats
+    castCompose: string;  // Warpcast compose page used by every share button
+  };
+  frameVerification: {
+    hubClient: 'grpc' | 'local';  // local only checks the hash and signature, so it is refused once deployed
+    maxAgeSeconds: number;  // Signed frame messages older than this are refused
+  };
+  logging: {
+    level: LogLevel;  // Entries below this level are dropped
+    format: 'json' | 'pretty';  // One JSON object per line for Vercel, readable lines for `frog dev`
+  };
+}
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const
+export type LogLevel = typeof LOG_LEVELS[number]
+
+// Thrown at startup with every problem found, one per line
+export class ConfigError extends Error {
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+// Vercel previews link to themselves unless PUBLIC_BASE_URL says otherwise
+function defaultBaseUrl(env: Env): string {
+  if (env.VERCEL_URL && env.VERCEL_ENV !== 'production') {
+    return `https://${env.VERCEL_URL}`;
+  }
+  return 'https://podplay.vercel.app';
+}
+
+export function loadConfig(env: Env = process.env): AppConfig {
+  const problems: string[] = [];
+
+  const url = (name: string, fallback: string, { allowHttp = false } = {}): string => {
+    const value = env[name]?.trim() || fallback;
+    try {
+      const parsed = new URL(value);
+      if (parsed.protocol !== 'https:' && !(allowHttp && parsed.protocol === 'http:')) {
+        problems.push(`${name} must be an https URL, got "${value}"`);
+      }
+    } catch {
+      problems.push(`${name} is not a valid URL: "${value}"`);
+    }
+    return value;
+  };
+
+  const hostAndPort = (name: string, fallback: string): string => {
+    const value = env[name]?.trim() || fallback;
+    if (!/^[a-z0-9.-]+(:\d+)?$/i.test(value)) {
+      problems.push(`${name} must be a host with an optional port, like hub.example.com:2283, got "${value}"`);
+    }
+    return value;
+  };
+
+  // http is allowed for the base URL so `frog dev` can point it at localhost
+  const baseUrl = url('PUBLIC_BASE_URL', defaultBaseUrl(env), { allowHttp: true }).replace(/\/+$/, '');
+
+  const featuredFids = (env.FEATURED_FIDS ?? '7472,14871').split(',').map(fid => fid.trim()).filter(Boolean);
+  const badFids = featuredFids.filter(fid => !/^[1-9]\d*$/.test(fid));
+  if (badFids.length > 0) {
+    problems.push(`FEATURED_FIDS must be comma-separated FIDs, got "${badFids.join('", "')}"`);
+  }
+
+  const credits = env.CREDITS_TEXT?.trim() || 'Frame by @goldie & @themrsazon';
+
+  const deployed = Boolean(env.VERCEL) || env.NODE_ENV === 'production';
+
+  // Instances without it sign with their own random key, so signed links stop working across instances
+  const gameStateSecret = env.GAME_STATE_SECRET?.trim() || null;
+  if (!gameStateSecret && deployed) {
+    problems.push('GAME_STATE_SECRET must be set when deployed');
+  }
+
+  const oneOf = <T extends string>(name: string, allowed: readonly T[], fallback: T): T => {
+    const value = env[name]?.trim().toLowerCase() || fallback;
+    if (!allowed.includes(value as T)) {
+      problems.push(`${name} must be one of ${allowed.join(', ')}, got "${value}"`);
+    }
+    return value as T;
+  };
+
+  const positiveInteger = (name: string, fallback: number): number => {
+    const value = env[name]?.trim();
+    if (!value) return fallback;
+    if (!/^[1-9]\d*$/.test(value)) {
+      problems.push(`${name} must be a positive whole number, got "${value}"`);
+      return fallback;
+    }
+    return Number(value);
+  };
+
+  const hubClient = oneOf('HUB_CLIENT', ['grpc', 'local'] as const, 'grpc');
+  if (hubClient === 'local' && deployed) {
+    problems.push('HUB_CLIENT=local skips the check that the signer belongs to the FID and is only allowed in development');
+  }
+
+  const config: AppConfig = {
+    baseUrl,
+    assets: {
+      logoGif: url('ASSET_LOGO_GIF', 'https://bafybeidnv5uh2ne54dlzyummobyv3bmc7uzuyt5htodvy27toqqhijf4xu.ipfs.w3s.link/PodPlay.gif'),
+      howToPlay: url('ASSET_HOW_TO_PLAY', 'https://bafybeifzk7uojcicnh6yhnqvoldkpzuf32sullm34ela266xthbidca6ny.ipfs.w3s.link/HowToPlay%20(1).png'),
+      menuBackground: url('ASSET_MENU_BACKGROUND', 'https://bafybeic3qu53tn46qmtgvterldnbbavt2h5y2x7unpyyc7txh2kcx6f6jm.ipfs.w3s.link/Frame%2039%20(3).png'),
+      gameBackground: url('ASSET_GAME_BACKGROUND', 'https://bafybeidmy2f6x42tjkgtrsptnntcjulfehlvt3ddjoyjbieaz7sywohpxy.ipfs.w3s.link/Frame%2039%20(1).png'),
+      statsBackground: url('ASSET_STATS_BACKGROUND', 'https://bafybeiax2usqi6g7cglrvxa5n3vw7vimqruklebxnmmpm5bo7ah4yldhwi.ipfs.w3s.link/Frame%2039%20(2).png'),
+      winGif: url('ASSET_WIN_GIF', 'https://bafybeie6qqm6r24chds5smesevkrdsg3jqmgw5wdmwzat7zdze3ukcgd5m.ipfs.w3s.link/giphy-downsized%202.GIF'),
+      loseGif: url('ASSET_LOSE_GIF', 'https://bafybeighyzexsg3vjxli5o6yfxfxuwrwsjoljnruvwhpqklqdyddpsxxry.ipfs.w3s.link/giphy%202.GIF'),
+      drawGif: url('ASSET_DRAW_GIF', 'https://bafybeigniqc263vmmcwmy2l4hitkklyarbu2e6s3q46izzalxswe5wbyaa.ipfs.w3s.link/giphy.GIF'),
+    },
+    featuredFids,
+    credits,
+    gameStateSecret,
+    endpoints: {
+      airstackApi: url('AIRSTACK_API_URL', 'https://api.airstack.xyz/gql'),
+      airstackHub: url('AIRSTACK_HUB_URL', 'https://hubs.airstack.xyz'),
+      hubRpc: hostAndPort('HUB_RPC_ADDRESS', 'hubs-grpc.airstack.xyz'),
+      moxieVestingApi: url('MOXIE_VESTING_API_URL', 'https://api.studio.thegraph.com/query/23537/moxie_vesting_mainnet/version/latest'),
+      moxieStatsApi: url('MOXIE_API_URL', 'https://api.studio.thegraph.com/query/23537/moxie_protocol_stats_mainnet/version/latest'),
+      tokenFrame: url('TOKEN_FRAME_URL', 'https://moxie-frames.airstack.xyz/stim?t=cid_thepod'),
+      castCompose: url('CAST_COMPOSE_URL', 'https://warpcast.com/~/compose'),
+    },
+    frameVerification: {
+      hubClient,
+      maxAgeSeconds: positiveInteger('FRAME_MESSAGE_MAX_AGE_SECONDS', 300),
+    },
+    logging: {
+      level: oneOf('LOG_LEVEL', LOG_LEVELS, deployed ? 'info' : 'debug'),
+      format: oneOf('LOG_FORMAT', ['json', 'pretty'] as const, deployed ? 'json' : 'pretty'),
+    },
+  };
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+export const config = loadConfig();
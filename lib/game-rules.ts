@@ -0,0 +1,93 @@
+// Board rules and the game state shapes shared by the frame handlers and the stats storage.
+// Free of side effects, so tests and scripts can import it without starting the app.
+
+export const DIFFICULTIES = ['easy', 'medium', 'hard', 'impossible'] as const
+export type Difficulty = typeof DIFFICULTIES[number]
+
+// Board and rule variants. Classic is the original 3x3 game and the only one counted in the main stats and POD Score.
+// `searchDepth` caps the impossible CPU's look-ahead, 3x3 trees are small enough to search completely.
+// Under misère rules completing a line loses, under wild rules either side may place X or O.
+export const VARIANTS = {
+  classic: { label: '3x3', size: 3, winLength: 3, searchDepth: Infinity, rules: 'standard', summary: '3 in a row wins' },
+  '4x4': { label: '4x4', size: 4, winLength: 4, searchDepth: 4, rules: 'standard', summary: '4 in a row wins' },
+  '5x5': { label: '5x5', size: 5, winLength: 4, searchDepth: 3, rules: 'standard', summary: '4 in a row wins' },
+  misere: { label: 'Misère', size: 3, winLength: 3, searchDepth: Infinity, rules: 'misere', summary: '3 in a row loses' },
+  wild: { label: 'Wild', size: 3, winLength: 3, searchDepth: Infinity, rules: 'wild', summary: 'play X or O, any 3 in a row wins' },
+} as const
+export type Variant = keyof typeof VARIANTS
+
+// Every way a CPU game can be played. Ultimate has its own state and engine, see UltimateState.
+export type GameMode = Variant | 'ultimate'
+
+// `alternate` swaps who opens after every game, see the Play Again button in /game
+export type TurnOrder = 'first' | 'second' | 'alternate'
+
+// Which mark the player uses and whether they open. The CPU takes the other mark.
+export type Seat = {
+  playerMark: 'O' | 'X';
+  playerFirst: boolean;
+}
+
+export type GameState = Seat & {
+  board: (string | null)[];
+  currentPlayer: 'O' | 'X';  // Always the player's mark, the CPU answers within the same request
+  isGameOver: boolean;
+  difficulty: Difficulty;
+  variant: Variant;
+  turnOrder: TurnOrder;
+  hintsUsed: number;
+  gameId: string;
+  fid?: number;
+  seed: number;
+  moves: number[];  // Board indices in play order, starting with whoever opened
+  startedAt: number;  // ms since epoch
+}
+
+// An Ultimate Tic-Tac-Toe game, see the engine in api/index.tsx
+export type UltimateState = {
+  difficulty: Difficulty;
+  gameId: string;
+  fid?: number;
+  seed: number;
+  moves: number[];  // board * 9 + cell in play order, player (O) first. The position is rebuilt from these.
+  startedAt: number;  // ms since epoch
+}
+
+// Rows are lettered from A and columns numbered from 1, so index 0 is A1
+export function getCoordinates(size: number): string[] {
+  return Array.from({ length: size * size }, (_, index) =>
+    `${String.fromCharCode(65 + Math.floor(index / size))}${index % size + 1}`
+  );
+}
+
+export const COORDINATES = getCoordinates(3)
+
+const winLineCache = new Map<Variant, number[][]>();
+
+// Every run of `winLength` cells in a row, column or diagonal
+export function getWinLines(variant: Variant): number[][] {
+  const cached = winLineCache.get(variant);
+  if (cached) return cached;
+
+  const { size, winLength } = VARIANTS[variant];
+  const directions = [[0, 1], [1, 0], [1, 1], [1, -1]]; // Rows, columns, diagonals, anti-diagonals
+  const lines: number[][] = [];
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      for (const [dRow, dCol] of directions) {
+        const endRow = row + dRow * (winLength - 1);
+        const endCol = col + dCol * (winLength - 1);
+        if (endRow >= size || endCol < 0 || endCol >= size) continue;
+        lines.push(Array.from({ length: winLength }, (_, step) => (row + dRow * step) * size + col + dCol * step));
+      }
+    }
+  }
+  winLineCache.set(variant, lines);
+  return lines;
+}
+
+export function checkWin(board: (string | null)[], variant: Variant = 'classic'): boolean {
+  return getWinLines(variant).some(line =>
+    board[line[0]] && line.every(index => board[index] === board[line[0]])
+  );
+}
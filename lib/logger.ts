@@ -0,0 +1,111 @@
+// Levelled, structured logging. Each entry is a single line carrying the request ID, route and FIDs
+// of the request it was logged from, with secrets and wallet addresses redacted.
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { config, LOG_LEVELS, type LogLevel } from './config.js';
+
+export type LogFields = Record<string, unknown>;
+
+// Attached to every entry logged while a request is handled
+export type LogContext = {
+  requestId: string;
+  route: string;
+  untrustedFid?: number;  // As claimed in the request body, before any verification
+  fid?: number;  // Only set once the signed frame message was verified
+}
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+// Runs `fn` with `context` attached to everything it logs, including from awaited calls
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...context }, fn);
+}
+
+// Adds fields learned while handling the request, such as the verified FID
+export function extendLogContext(fields: Partial<LogContext>): void {
+  const context = contextStorage.getStore();
+  if (context) Object.assign(context, fields);
+}
+
+// Keys whose values are never logged, wherever they appear in the fields
+const SECRET_KEY = /secret|password|api[-_]?key|authorization|cookie|private[-_]?key|client[-_]?email|messageBytes|signature/i;
+const WALLET_ADDRESS = /\b0x[0-9a-fA-F]{40}\b/g;
+const MAX_DEPTH = 5;
+
+// Values of secret environment variables, so one pasted into an error message is caught too
+const secretValues = Object.entries(process.env)
+  .filter(([name, value]) => /KEY|SECRET|TOKEN|PASSWORD/i.test(name) && value && value.length >= 8)
+  .map(([, value]) => value as string);
+
+function redactString(value: string): string {
+  let redacted = value.replace(WALLET_ADDRESS, '0x[address]');
+  for (const secret of secretValues) {
+    redacted = redacted.split(secret).join('[redacted]');
+  }
+  return redacted;
+}
+
+// Status of a failed HTTP response carried by the error, as on graphql-request's ClientError
+function responseStatus(error: Error): number | undefined {
+  const { response } = error as { response?: { status?: unknown } };
+  return typeof response?.status === 'number' ? response.status : undefined;
+}
+
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Error) {
+    // Their message and stack repeat the whole request and response, so only the class and status are logged
+    const status = responseStatus(value);
+    if (status !== undefined) return { name: value.constructor.name, status };
+    return { name: value.name, message: redactString(value.message), stack: value.stack && redactString(value.stack) };
+  }
+  if (depth >= MAX_DEPTH) return '[truncated]';
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+  return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+    [key, SECRET_KEY.test(key) ? '[redacted]' : redact(item, depth + 1)]
+  ));
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(config.logging.level)) return;
+
+  const entry = redact({ ...contextStorage.getStore(), ...fields }) as LogFields;
+  const time = new Date().toISOString();
+  const line = config.logging.format === 'json'
+    ? JSON.stringify({ time, level, message: redactString(message), ...entry })
+    : [
+      time.slice(11, 23),
+      level.toUpperCase().padEnd(5),
+      redactString(message),
+      ...Object.entries(entry).map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`),
+    ].join(' ');
+
+  if (level === 'error' || level === 'warn') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
+
+// Runs one call to an outside service and logs a single summary line with its latency and outcome.
+// `details` adds fields known only once the call has settled, such as the number of attempts.
+export async function traceUpstream<T>(service: string, call: () => Promise<T>, details?: () => LogFields): Promise<T> {
+  const startedAt = performance.now();
+  const latencyMs = () => Math.round(performance.now() - startedAt);
+  try {
+    const result = await call();
+    logger.info('Upstream call', { service, outcome: 'ok', latencyMs: latencyMs(), ...details?.() });
+    return result;
+  } catch (error) {
+    logger.warn('Upstream call', { service, outcome: 'error', latencyMs: latencyMs(), ...details?.(), error });
+    throw error;
+  }
+}
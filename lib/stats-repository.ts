@@ -0,0 +1,835 @@
+// Player stats storage. PlayerStatsRepository has Firestore, in-memory and JSON file implementations,
+// STATS_BACKEND picks one. Nothing here touches Firebase until the Firestore backend is first used.
+import admin from 'firebase-admin';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { COORDINATES, DIFFICULTIES, checkWin, type Difficulty, type GameMode, type GameState, type UltimateState } from './game-rules.js';
+import { logger, traceUpstream } from './logger.js';
+
+let db: admin.firestore.Firestore | null = null;
+
+// Initializes Firebase on first use, so the memory and file backends need no credentials
+function getDb(): admin.firestore.Firestore {
+  if (db) {
+    return db;
+  }
+  const projectId = process.env.FIREBASE_PROJECT_ID;
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY;
+
+  if (!projectId || !clientEmail || !privateKey) {
+    throw new Error('Missing Firebase configuration environment variables');
+  }
+
+  if (!admin.apps.length) {
+    admin.initializeApp({
+      credential: admin.credential.cert({
+        projectId,
+        clientEmail,
+        privateKey: privateKey.replace(/\\n/g, '\n'),
+      }),
+    });
+    logger.info('Firebase initialized', { projectId });
+  }
+
+  db = admin.firestore();
+  return db;
+}
+
+// Easy games per day that earn full score credit, each one after earns half the credit of the one before
+const FULL_CREDIT_EASY_GAMES_PER_DAY = 10;
+
+// Share of a classic easy game's score credit earned by the player's `gameOfDay`-th easy game of the day
+function easyGameCredit(gameOfDay: number): number {
+  const extra = gameOfDay - FULL_CREDIT_EASY_GAMES_PER_DAY;
+  return extra <= 0 ? 1 : 0.5 ** extra;
+}
+
+// easyWins, easyLosses, easyTies, mediumWins, ...
+type DifficultyCounters = Record<`${Difficulty}${'Wins' | 'Losses' | 'Ties'}`, number>;
+
+// Described in BADGES in api/index.tsx
+export type BadgeId = 'first-hard-win' | 'win-streak-10' | 'games-100' | 'no-blocks-win' | 'pod-holder';
+
+// Update UserRecord type to include profile images
+export type UserRecord = DifficultyCounters & {
+  wins: number;
+  losses: number;
+  ties: number;
+  currentStreak: number;  // Consecutive wins, reset by a loss or draw
+  longestStreak: number;
+  dailyStreak: number;  // Consecutive days with a solved daily puzzle
+  longestDailyStreak: number;
+  lastDailySolve?: string;
+  variantStats?: Partial<Record<GameMode, VariantRecord>>;  // Every mode except classic
+  positionStats?: Partial<Record<'first' | 'second', VariantRecord>>;  // Every game, by who opened
+  hintedWins?: Partial<Record<Difficulty, number>>;  // Classic wins that used hints, also counted in the win counters
+  easyGamesToday?: { date: string, count: number };  // Classic easy games finished on `date` (UTC)
+  withheldEasyCredit?: VariantRecord;  // Share of easy games past the daily allowance that the POD Score leaves out
+  badges?: Partial<Record<BadgeId, Date>>;  // Unlock date per badge
+  timestamp: Date;
+  profileImage?: string;  // Added this field
+  podScore?: number;
+  podScoreVersion?: string;  // Scoring config `podScore` was computed with
+  tokenBalance?: number;
+}
+
+export type VariantRecord = {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export type GameOutcome = 'win' | 'lose' | 'draw';
+
+// One record per finished CPU game, keyed by game ID
+export type GameRecord = {
+  fid: string;
+  difficulty: Difficulty;
+  variant?: GameMode;  // Missing on games recorded before board variants, which were all classic
+  playerMark?: 'O' | 'X';  // Missing on games recorded before seat choice, where the player was O and opened
+  playerFirst?: boolean;
+  hintsUsed?: number;
+  forfeited?: boolean;  // Abandoned and recorded as a loss once its session expired
+  moves: number[];
+  board: (string | null)[];  // All 81 cells for ultimate games
+  result: GameOutcome;
+  startedAt: Date;
+  endedAt: Date;
+}
+
+// One per player per daily puzzle they solved, keyed `${date}_${fid}`
+export type PuzzleSolve = {
+  fid: string;
+  date: string;  // YYYY-MM-DD, UTC
+  moves: number[];
+  solvedAt: Date;
+}
+
+// An unfinished CPU or ultimate game, keyed by its game ID so button values only carry that short ID.
+// Each player has at most one, starting a new game forfeits the old one.
+export type GameSession = {
+  id: string;
+  fid: string | null;  // null for games started without a signed-in player
+  updatedAt: Date;
+  expiresAt: Date;  // Counted as a forfeit from here on
+} & (
+  | { mode?: undefined, state: GameState }  // CPU games on the regular boards
+  | { mode: 'ultimate', state: UltimateState }
+)
+
+// A finished game held back from the stats by the anti-farming rules, keyed by game ID
+export type FlaggedGame = {
+  id: string;
+  game: GameRecord;
+  reasons: string[];
+  flaggedAt: Date;
+}
+
+// Numeric user fields that leaderboards can be sorted by
+export type RankedField = 'podScore' | `${Difficulty}Wins`;
+
+export type LeaderboardEntry = {
+  fid: string;
+  value: number;
+  profileImage: string | null;
+}
+
+// Player-vs-player matches. The creator plays O and moves first.
+export type MatchRecord = {
+  board: (string | null)[];
+  creatorFid: number;
+  opponentFid: number | null;  // null until someone accepts an open challenge
+  currentPlayer: 'O' | 'X';
+  status: 'open' | 'active' | 'finished';
+  winnerFid: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// PvP results are kept apart from the CPU-game counters in `users`
+export type PvpRecord = {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+// Thrown when a PvP move is rejected, the message is shown to the player
+export class MatchMoveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MatchMoveError';
+  }
+}
+
+// The match after `fid` plays `move`. Whoever moves first as X on an open challenge becomes the opponent.
+function applyMatchMove(match: MatchRecord, fid: number, move: number): MatchRecord {
+  if (match.status === 'finished') {
+    throw new MatchMoveError('This match is already over.');
+  }
+  const next = { ...match, board: [...match.board], updatedAt: new Date() };
+  if (next.status === 'open' && fid !== next.creatorFid && next.currentPlayer === 'X') {
+    next.opponentFid = fid;
+    next.status = 'active';
+  }
+  const turnFid = next.currentPlayer === 'O' ? next.creatorFid : next.opponentFid;
+  if (fid !== next.creatorFid && fid !== next.opponentFid) {
+    throw new MatchMoveError('You are not a player in this match.');
+  }
+  if (fid !== turnFid) {
+    throw new MatchMoveError("It's not your turn yet.");
+  }
+  if (!Number.isInteger(move) || move < 0 || move > 8) {
+    throw new MatchMoveError('That is not a cell on the board.');
+  }
+  if (next.board[move] !== null) {
+    throw new MatchMoveError(`${COORDINATES[move]} is already taken! Choose an empty cell.`);
+  }
+
+  next.board[move] = next.currentPlayer;
+  if (checkWin(next.board)) {
+    next.status = 'finished';
+    next.winnerFid = fid;
+  } else if (next.board.every(cell => cell !== null)) {
+    next.status = 'finished';
+  } else {
+    next.currentPlayer = next.currentPlayer === 'O' ? 'X' : 'O';
+  }
+  return next;
+}
+
+// The PvP record counter a finished match adds to for `playerFid`
+function matchResultField(match: MatchRecord, playerFid: number): keyof PvpRecord {
+  return match.winnerFid === null ? 'ties' : match.winnerFid === playerFid ? 'wins' : 'losses';
+}
+
+// Everything the stats code needs from storage. Implementations throw on failure,
+// callers decide whether to fall back to empty values.
+export interface PlayerStatsRepository {
+  getUserRecord(fid: string): Promise<UserRecord | null>;
+  // Saves the game and updates the player's counters in one atomic step.
+  // Resolves false, changing nothing, if a game with this ID was already recorded or flagged.
+  recordGame(gameId: string, game: GameRecord, profileImage: string | null): Promise<boolean>;
+  // Stores a game for review without touching the player's counters, false if it was already recorded or flagged
+  flagGame(flagged: FlaggedGame): Promise<boolean>;
+  // Newest first
+  getFlaggedGames(limit: number): Promise<FlaggedGame[]>;
+  // Leaves the stored token balance alone when `tokenBalance` is undefined, so unknown never becomes zero
+  updateScore(fid: string, podScore: number, podScoreVersion: string, tokenBalance?: number): Promise<void>;
+  // Every player keyed by FID, for offline jobs only
+  getAllUserRecords(): Promise<Map<string, UserRecord>>;
+  countPlayers(): Promise<number>;
+  getRecentPlayerFids(limit: number): Promise<string[]>;
+  getGames(fid: string, offset: number, limit: number): Promise<GameRecord[]>;
+  getTopPlayers(field: RankedField, limit: number): Promise<LeaderboardEntry[]>;
+  countPlayersAbove(field: RankedField, value: number): Promise<number>;
+  // Resolves false if this player already solved the puzzle for `date`
+  recordPuzzleSolve(solve: PuzzleSolve): Promise<boolean>;
+  countPuzzleSolves(date: string): Promise<number>;
+  // Badges the player already has keep their original unlock date
+  unlockBadges(fid: string, badgeIds: BadgeId[], unlockedAt: Date): Promise<void>;
+  saveSession(session: GameSession): Promise<void>;
+  getSession(sessionId: string): Promise<GameSession | null>;
+  getPlayerSession(fid: string): Promise<GameSession | null>;
+  getExpiredSessions(now: Date, limit: number): Promise<GameSession[]>;
+  deleteSession(sessionId: string): Promise<void>;
+  // Resolves false if the frame message with this hash was claimed before. Claims can be dropped after `expiresAt`.
+  claimFrameMessage(hash: string, expiresAt: Date): Promise<boolean>;
+  createMatch(matchId: string, match: MatchRecord): Promise<void>;
+  getMatch(matchId: string): Promise<MatchRecord | null>;
+  // Applies the move with `applyMatchMove` in one atomic step, so two players can't both move on the same turn.
+  // A finished match with an opponent also counts in both players' PvP records.
+  playMatchMove(matchId: string, fid: number, move: number): Promise<MatchRecord>;
+  getPvpRecord(fid: string): Promise<PvpRecord | null>;
+}
+
+export function emptyUserRecord(): UserRecord {
+  const counters = Object.fromEntries(DIFFICULTIES.flatMap(difficulty =>
+    ['Wins', 'Losses', 'Ties'].map(suffix => [`${difficulty}${suffix}`, 0])
+  )) as DifficultyCounters;
+  return {
+    ...counters, wins: 0, losses: 0, ties: 0, currentStreak: 0, longestStreak: 0,
+    dailyStreak: 0, longestDailyStreak: 0, timestamp: new Date()
+  };
+}
+
+// The streak fields that change when `record`'s owner solves the puzzle for `date`
+function tallyPuzzleSolve(record: UserRecord, date: string): Partial<UserRecord> {
+  const dayBefore = new Date(Date.parse(date) - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const dailyStreak = record.lastDailySolve === dayBefore ? record.dailyStreak + 1 : 1;
+  return {
+    dailyStreak,
+    longestDailyStreak: Math.max(record.longestDailyStreak, dailyStreak),
+    lastDailySolve: date,
+  };
+}
+
+// The counter fields that change when `record`'s owner finishes `game`.
+// Classic games update the main counters and streaks, other variants only their own record.
+// Every game also counts towards the record for the position the player moved from.
+function tallyGameResult(record: UserRecord, game: GameRecord): Partial<UserRecord> {
+  const { result, difficulty, variant = 'classic', playerFirst = true, hintsUsed = 0 } = game;
+  const suffix = result === 'win' ? 'Wins' : result === 'lose' ? 'Losses' : 'Ties';
+  const total = result === 'win' ? 'wins' : result === 'lose' ? 'losses' : 'ties';
+  const position = playerFirst ? 'first' : 'second';
+  const positionRecord = record.positionStats?.[position] || { wins: 0, losses: 0, ties: 0 };
+  const positionStats = { ...record.positionStats, [position]: { ...positionRecord, [total]: positionRecord[total] + 1 } };
+  if (variant !== 'classic') {
+    const variantRecord = record.variantStats?.[variant] || { wins: 0, losses: 0, ties: 0 };
+    return {
+      variantStats: { ...record.variantStats, [variant]: { ...variantRecord, [total]: variantRecord[total] + 1 } },
+      positionStats,
+    };
+  }
+  const currentStreak = result === 'win' ? record.currentStreak + 1 : 0;
+  const hinted = result === 'win' && hintsUsed > 0
+    ? { hintedWins: { ...record.hintedWins, [difficulty]: (record.hintedWins?.[difficulty] || 0) + 1 } }
+    : {};
+  let easyCredit: Partial<UserRecord> = {};
+  if (difficulty === 'easy') {
+    const date = game.endedAt.toISOString().slice(0, 10);
+    const count = (record.easyGamesToday?.date === date ? record.easyGamesToday.count : 0) + 1;
+    const credit = easyGameCredit(count);
+    const withheld = record.withheldEasyCredit || { wins: 0, losses: 0, ties: 0 };
+    easyCredit = {
+      easyGamesToday: { date, count },
+      ...(credit < 1 ? { withheldEasyCredit: { ...withheld, [total]: withheld[total] + 1 - credit } } : {}),
+    };
+  }
+  return {
+    ...hinted,
+    ...easyCredit,
+    positionStats,
+    [total]: record[total] + 1,
+    [`${difficulty}${suffix}`]: record[`${difficulty}${suffix}` as keyof DifficultyCounters] + 1,
+    currentStreak,
+    longestStreak: Math.max(record.longestStreak, currentStreak),
+  };
+}
+
+function toDate(value: unknown): Date {
+  if (value instanceof admin.firestore.Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  return new Date(value as string | number);
+}
+
+function createFirestoreStatsRepository(): PlayerStatsRepository {
+  const users = () => getDb().collection('users');
+  const games = () => getDb().collection('games');
+  const toGameRecord = (data: admin.firestore.DocumentData): GameRecord => ({
+    ...data as GameRecord,
+    startedAt: toDate(data.startedAt),
+    endedAt: toDate(data.endedAt),
+  });
+  const toUserRecord = (data: admin.firestore.DocumentData): UserRecord => {
+    const badges = Object.fromEntries(Object.entries(data.badges || {}).map(([id, date]) => [id, toDate(date)]));
+    return { ...emptyUserRecord(), ...data, badges, timestamp: toDate(data.timestamp) };
+  };
+  const flaggedGames = () => getDb().collection('flaggedGames');
+  const toFlaggedGame = (data: admin.firestore.DocumentData): FlaggedGame => ({
+    ...data as FlaggedGame,
+    game: toGameRecord(data.game),
+    flaggedAt: toDate(data.flaggedAt),
+  });
+  const sessions = () => getDb().collection('gameSessions');
+  const toGameSession = (data: admin.firestore.DocumentData): GameSession => ({
+    ...data as GameSession,
+    updatedAt: toDate(data.updatedAt),
+    expiresAt: toDate(data.expiresAt),
+  });
+  const matches = () => getDb().collection('matches');
+  const pvpRecords = () => getDb().collection('pvpRecords');
+  const toMatchRecord = (data: admin.firestore.DocumentData): MatchRecord => ({
+    ...data as MatchRecord,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  });
+
+  return {
+    async getUserRecord(fid) {
+      const userDoc = await users().doc(fid).get();
+      if (!userDoc.exists) return null;
+      return toUserRecord(userDoc.data()!);
+    },
+
+    async recordGame(gameId, game, profileImage) {
+      const gameRef = games().doc(gameId);
+      const flaggedRef = flaggedGames().doc(gameId);
+      const userRef = users().doc(game.fid);
+
+      return getDb().runTransaction(async (transaction) => {
+        const [gameDoc, flaggedDoc, userDoc] = await Promise.all([
+          transaction.get(gameRef), transaction.get(flaggedRef), transaction.get(userRef)
+        ]);
+        if (gameDoc.exists || flaggedDoc.exists) return false;
+
+        const record = { ...emptyUserRecord(), ...userDoc.data() };
+        transaction.create(gameRef, {
+          ...game,
+          startedAt: admin.firestore.Timestamp.fromDate(game.startedAt),
+          endedAt: admin.firestore.Timestamp.fromDate(game.endedAt),
+        });
+        transaction.set(userRef, {
+          ...tallyGameResult(record, game),
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+          ...(profileImage ? { profileImage } : {}),
+        }, { merge: true });
+        return true;
+      });
+    },
+
+    async flagGame(flagged) {
+      const gameRef = games().doc(flagged.id);
+      const flaggedRef = flaggedGames().doc(flagged.id);
+
+      return getDb().runTransaction(async (transaction) => {
+        const [gameDoc, flaggedDoc] = await Promise.all([transaction.get(gameRef), transaction.get(flaggedRef)]);
+        if (gameDoc.exists || flaggedDoc.exists) return false;
+        transaction.create(flaggedRef, {
+          ...flagged,
+          game: {
+            ...flagged.game,
+            startedAt: admin.firestore.Timestamp.fromDate(flagged.game.startedAt),
+            endedAt: admin.firestore.Timestamp.fromDate(flagged.game.endedAt),
+          },
+          flaggedAt: admin.firestore.Timestamp.fromDate(flagged.flaggedAt),
+        });
+        return true;
+      });
+    },
+
+    async getFlaggedGames(limit) {
+      const snapshot = await flaggedGames().orderBy('flaggedAt', 'desc').limit(limit).get();
+      return snapshot.docs.map(doc => toFlaggedGame(doc.data()));
+    },
+
+    async updateScore(fid, podScore, podScoreVersion, tokenBalance) {
+      await users().doc(fid).set({ podScore, podScoreVersion, ...(tokenBalance !== undefined ? { tokenBalance } : {}) }, { merge: true });
+    },
+
+    async getAllUserRecords() {
+      const snapshot = await users().get();
+      return new Map(snapshot.docs.map(doc => [doc.id, toUserRecord(doc.data())]));
+    },
+
+    async countPlayers() {
+      const snapshot = await users().count().get();
+      return snapshot.data().count;
+    },
+
+    async getRecentPlayerFids(limit) {
+      const snapshot = await users().orderBy('timestamp', 'desc').limit(limit).get();
+      return snapshot.docs.map(doc => doc.id);
+    },
+
+    // Needs the composite index games(fid asc, endedAt desc)
+    async getGames(fid, offset, limit) {
+      const snapshot = await games()
+        .where('fid', '==', fid)
+        .orderBy('endedAt', 'desc')
+        .offset(offset)
+        .limit(limit)
+        .get();
+      return snapshot.docs.map(doc => toGameRecord(doc.data()));
+    },
+
+    async getTopPlayers(field, limit) {
+      const snapshot = await users().orderBy(field, 'desc').limit(limit).get();
+      return snapshot.docs.map(doc => ({
+        fid: doc.id,
+        value: doc.get(field) || 0,
+        profileImage: doc.get('profileImage') || null,
+      }));
+    },
+
+    async countPlayersAbove(field, value) {
+      const snapshot = await users().where(field, '>', value).count().get();
+      return snapshot.data().count;
+    },
+
+    async recordPuzzleSolve(solve) {
+      const solveRef = getDb().collection('puzzleSolves').doc(`${solve.date}_${solve.fid}`);
+      const userRef = users().doc(solve.fid);
+
+      return getDb().runTransaction(async (transaction) => {
+        const [solveDoc, userDoc] = await Promise.all([transaction.get(solveRef), transaction.get(userRef)]);
+        if (solveDoc.exists) return false;
+
+        const record = { ...emptyUserRecord(), ...userDoc.data() };
+        transaction.create(solveRef, { ...solve, solvedAt: admin.firestore.Timestamp.fromDate(solve.solvedAt) });
+        transaction.set(userRef, tallyPuzzleSolve(record, solve.date), { merge: true });
+        return true;
+      });
+    },
+
+    async countPuzzleSolves(date) {
+      const snapshot = await getDb().collection('puzzleSolves').where('date', '==', date).count().get();
+      return snapshot.data().count;
+    },
+
+    async unlockBadges(fid, badgeIds, unlockedAt) {
+      const userRef = users().doc(fid);
+      await getDb().runTransaction(async (transaction) => {
+        const existing = (await transaction.get(userRef)).get('badges') || {};
+        const added = badgeIds.filter(id => !existing[id]);
+        if (added.length === 0) return;
+        const timestamp = admin.firestore.Timestamp.fromDate(unlockedAt);
+        transaction.set(userRef, {
+          badges: Object.fromEntries(added.map(id => [id, timestamp]))
+        }, { merge: true });
+      });
+    },
+
+    async saveSession(session) {
+      // Firestore rejects undefined fields, which the state's fid is for anonymous games
+      const { fid, ...state } = session.state;
+      await sessions().doc(session.id).set({
+        ...session,
+        state: fid === undefined ? state : { ...state, fid },
+        updatedAt: admin.firestore.Timestamp.fromDate(session.updatedAt),
+        expiresAt: admin.firestore.Timestamp.fromDate(session.expiresAt),
+      });
+    },
+
+    async getSession(sessionId) {
+      const sessionDoc = await sessions().doc(sessionId).get();
+      return sessionDoc.exists ? toGameSession(sessionDoc.data()!) : null;
+    },
+
+    async getPlayerSession(fid) {
+      const snapshot = await sessions().where('fid', '==', fid).limit(1).get();
+      return snapshot.empty ? null : toGameSession(snapshot.docs[0].data());
+    },
+
+    async getExpiredSessions(now, limit) {
+      const snapshot = await sessions()
+        .where('expiresAt', '<=', admin.firestore.Timestamp.fromDate(now))
+        .limit(limit)
+        .get();
+      return snapshot.docs.map(doc => toGameSession(doc.data()));
+    },
+
+    async deleteSession(sessionId) {
+      await sessions().doc(sessionId).delete();
+    },
+
+    // A TTL policy on frameMessages.expiresAt keeps the collection small
+    async claimFrameMessage(hash, expiresAt) {
+      const messageRef = getDb().collection('frameMessages').doc(hash);
+      return getDb().runTransaction(async (transaction) => {
+        if ((await transaction.get(messageRef)).exists) return false;
+        transaction.create(messageRef, { expiresAt: admin.firestore.Timestamp.fromDate(expiresAt) });
+        return true;
+      });
+    },
+
+    async createMatch(matchId, match) {
+      await matches().doc(matchId).set({
+        ...match,
+        createdAt: admin.firestore.Timestamp.fromDate(match.createdAt),
+        updatedAt: admin.firestore.Timestamp.fromDate(match.updatedAt),
+      });
+    },
+
+    async getMatch(matchId) {
+      const matchDoc = await matches().doc(matchId).get();
+      return matchDoc.exists ? toMatchRecord(matchDoc.data()!) : null;
+    },
+
+    async playMatchMove(matchId, fid, move) {
+      const matchRef = matches().doc(matchId);
+      return getDb().runTransaction(async (transaction) => {
+        const matchDoc = await transaction.get(matchRef);
+        if (!matchDoc.exists) {
+          throw new MatchMoveError('This match does not exist.');
+        }
+        const match = applyMatchMove(toMatchRecord(matchDoc.data()!), fid, move);
+        transaction.set(matchRef, {
+          board: match.board,
+          opponentFid: match.opponentFid,
+          currentPlayer: match.currentPlayer,
+          status: match.status,
+          winnerFid: match.winnerFid,
+          updatedAt: admin.firestore.Timestamp.fromDate(match.updatedAt),
+        }, { merge: true });
+
+        if (match.status === 'finished' && match.opponentFid) {
+          for (const playerFid of [match.creatorFid, match.opponentFid]) {
+            transaction.set(pvpRecords().doc(playerFid.toString()), {
+              [matchResultField(match, playerFid)]: admin.firestore.FieldValue.increment(1),
+              timestamp: admin.firestore.FieldValue.serverTimestamp(),
+            }, { merge: true });
+          }
+        }
+        return match;
+      });
+    },
+
+    async getPvpRecord(fid) {
+      const data = (await pvpRecords().doc(fid).get()).data();
+      return data ? { wins: data.wins || 0, losses: data.losses || 0, ties: data.ties || 0 } : null;
+    },
+  };
+}
+
+export type StatsSnapshot = {
+  users: Record<string, UserRecord>;
+  games: Record<string, GameRecord>;
+  puzzleSolves: Record<string, PuzzleSolve>;
+  sessions: Record<string, GameSession>;
+  flaggedGames: Record<string, FlaggedGame>;
+  matches: Record<string, MatchRecord>;
+  pvpRecords: Record<string, PvpRecord>;
+}
+
+// Keeps everything in process memory. `onChange` lets the file backend persist after each write.
+export function createMemoryStatsRepository(initial?: StatsSnapshot, onChange?: (snapshot: StatsSnapshot) => void): PlayerStatsRepository {
+  const snapshot: StatsSnapshot = initial || { users: {}, games: {}, puzzleSolves: {}, sessions: {}, flaggedGames: {}, matches: {}, pvpRecords: {} };
+  const changed = () => onChange?.(snapshot);
+  const frameMessageClaims = new Map<string, number>();
+  const byField = (field: RankedField) => Object.entries(snapshot.users)
+    .filter(([, user]) => typeof user[field] === 'number');
+
+  return {
+    async getUserRecord(fid) {
+      const user = snapshot.users[fid];
+      return user ? { ...user } : null;
+    },
+
+    async recordGame(gameId, game, profileImage) {
+      if (snapshot.games[gameId] || snapshot.flaggedGames[gameId]) return false;
+      const user = snapshot.users[game.fid] || emptyUserRecord();
+      snapshot.games[gameId] = { ...game };
+      snapshot.users[game.fid] = {
+        ...user,
+        ...tallyGameResult(user, game),
+        timestamp: new Date(),
+        ...(profileImage ? { profileImage } : {}),
+      };
+      changed();
+      return true;
+    },
+
+    async flagGame(flagged) {
+      if (snapshot.games[flagged.id] || snapshot.flaggedGames[flagged.id]) return false;
+      snapshot.flaggedGames[flagged.id] = structuredClone(flagged);
+      changed();
+      return true;
+    },
+
+    async getFlaggedGames(limit) {
+      return Object.values(snapshot.flaggedGames)
+        .sort((a, b) => b.flaggedAt.getTime() - a.flaggedAt.getTime())
+        .slice(0, limit)
+        .map(flagged => structuredClone(flagged));
+    },
+
+    async updateScore(fid, podScore, podScoreVersion, tokenBalance) {
+      snapshot.users[fid] = {
+        ...(snapshot.users[fid] || emptyUserRecord()), podScore, podScoreVersion,
+        ...(tokenBalance !== undefined ? { tokenBalance } : {}),
+      };
+      changed();
+    },
+
+    async getAllUserRecords() {
+      return new Map(Object.entries(snapshot.users).map(([fid, user]) => [fid, { ...emptyUserRecord(), ...user }]));
+    },
+
+    async countPlayers() {
+      return Object.keys(snapshot.users).length;
+    },
+
+    async getRecentPlayerFids(limit) {
+      return Object.entries(snapshot.users)
+        .sort(([, a], [, b]) => b.timestamp.getTime() - a.timestamp.getTime())
+        .slice(0, limit)
+        .map(([fid]) => fid);
+    },
+
+    async getGames(fid, offset, limit) {
+      return Object.values(snapshot.games)
+        .filter(game => game.fid === fid)
+        .sort((a, b) => b.endedAt.getTime() - a.endedAt.getTime())
+        .slice(offset, offset + limit);
+    },
+
+    async getTopPlayers(field, limit) {
+      return byField(field)
+        .sort(([, a], [, b]) => (b[field] as number) - (a[field] as number))
+        .slice(0, limit)
+        .map(([fid, user]) => ({ fid, value: user[field] as number, profileImage: user.profileImage || null }));
+    },
+
+    async countPlayersAbove(field, value) {
+      return byField(field).filter(([, user]) => (user[field] as number) > value).length;
+    },
+
+    async recordPuzzleSolve(solve) {
+      const key = `${solve.date}_${solve.fid}`;
+      if (snapshot.puzzleSolves[key]) return false;
+      const user = snapshot.users[solve.fid] || emptyUserRecord();
+      snapshot.puzzleSolves[key] = { ...solve };
+      snapshot.users[solve.fid] = { ...user, ...tallyPuzzleSolve(user, solve.date) };
+      changed();
+      return true;
+    },
+
+    async countPuzzleSolves(date) {
+      return Object.values(snapshot.puzzleSolves).filter(solve => solve.date === date).length;
+    },
+
+    async unlockBadges(fid, badgeIds, unlockedAt) {
+      const user = snapshot.users[fid] || emptyUserRecord();
+      const badges = { ...user.badges };
+      for (const id of badgeIds) {
+        badges[id] = badges[id] || unlockedAt;
+      }
+      snapshot.users[fid] = { ...user, badges };
+      changed();
+    },
+
+    async saveSession(session) {
+      snapshot.sessions[session.id] = structuredClone(session);
+      changed();
+    },
+
+    async getSession(sessionId) {
+      const session = snapshot.sessions[sessionId];
+      return session ? structuredClone(session) : null;
+    },
+
+    async getPlayerSession(fid) {
+      const session = Object.values(snapshot.sessions).find(session => session.fid === fid);
+      return session ? structuredClone(session) : null;
+    },
+
+    async getExpiredSessions(now, limit) {
+      return Object.values(snapshot.sessions)
+        .filter(session => session.expiresAt.getTime() <= now.getTime())
+        .slice(0, limit)
+        .map(session => structuredClone(session));
+    },
+
+    async deleteSession(sessionId) {
+      delete snapshot.sessions[sessionId];
+      changed();
+    },
+
+    // Claims stay out of the snapshot, they expire within minutes
+    async claimFrameMessage(hash, expiresAt) {
+      const now = Date.now();
+      for (const [claimed, expiry] of frameMessageClaims) {
+        if (expiry <= now) frameMessageClaims.delete(claimed);
+      }
+      if (frameMessageClaims.has(hash)) return false;
+      frameMessageClaims.set(hash, expiresAt.getTime());
+      return true;
+    },
+
+    async createMatch(matchId, match) {
+      snapshot.matches[matchId] = structuredClone(match);
+      changed();
+    },
+
+    async getMatch(matchId) {
+      const match = snapshot.matches[matchId];
+      return match ? structuredClone(match) : null;
+    },
+
+    async playMatchMove(matchId, fid, move) {
+      const stored = snapshot.matches[matchId];
+      if (!stored) {
+        throw new MatchMoveError('This match does not exist.');
+      }
+      const match = applyMatchMove(structuredClone(stored), fid, move);
+      snapshot.matches[matchId] = match;
+      if (match.status === 'finished' && match.opponentFid) {
+        for (const playerFid of [match.creatorFid, match.opponentFid]) {
+          const record = snapshot.pvpRecords[playerFid] || { wins: 0, losses: 0, ties: 0 };
+          const field = matchResultField(match, playerFid);
+          snapshot.pvpRecords[playerFid] = { ...record, [field]: record[field] + 1 };
+        }
+      }
+      changed();
+      return structuredClone(match);
+    },
+
+    async getPvpRecord(fid) {
+      const record = snapshot.pvpRecords[fid];
+      return record ? { ...record } : null;
+    },
+  };
+}
+
+// Memory backend persisted to a JSON file, for offline local development
+export function createFileStatsRepository(filePath: string): PlayerStatsRepository {
+  let initial: StatsSnapshot | undefined;
+  if (existsSync(filePath)) {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as StatsSnapshot;
+    for (const user of Object.values(parsed.users)) {
+      user.timestamp = toDate(user.timestamp);
+      for (const [id, date] of Object.entries(user.badges || {})) {
+        user.badges![id as BadgeId] = toDate(date);
+      }
+    }
+    for (const game of Object.values(parsed.games)) {
+      game.startedAt = toDate(game.startedAt);
+      game.endedAt = toDate(game.endedAt);
+    }
+    parsed.puzzleSolves = parsed.puzzleSolves || {};
+    for (const solve of Object.values(parsed.puzzleSolves)) {
+      solve.solvedAt = toDate(solve.solvedAt);
+    }
+    parsed.sessions = parsed.sessions || {};
+    for (const session of Object.values(parsed.sessions)) {
+      session.updatedAt = toDate(session.updatedAt);
+      session.expiresAt = toDate(session.expiresAt);
+    }
+    parsed.flaggedGames = parsed.flaggedGames || {};
+    for (const flagged of Object.values(parsed.flaggedGames)) {
+      flagged.game.startedAt = toDate(flagged.game.startedAt);
+      flagged.game.endedAt = toDate(flagged.game.endedAt);
+      flagged.flaggedAt = toDate(flagged.flaggedAt);
+    }
+    parsed.matches = parsed.matches || {};
+    for (const match of Object.values(parsed.matches)) {
+      match.createdAt = toDate(match.createdAt);
+      match.updatedAt = toDate(match.updatedAt);
+    }
+    parsed.pvpRecords = parsed.pvpRecords || {};
+    initial = parsed;
+  }
+
+  return createMemoryStatsRepository(initial, (snapshot) => {
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify(snapshot, null, 2));
+  });
+}
+
+// Logs an upstream summary line for every call made through `repository`
+function traceStatsRepository(repository: PlayerStatsRepository, service: string): PlayerStatsRepository {
+  return new Proxy(repository, {
+    get(target, name, receiver) {
+      const method = Reflect.get(target, name, receiver);
+      return typeof method === 'function'
+        ? (...args: unknown[]) => traceUpstream(`${service} ${String(name)}`, () => method.apply(target, args))
+        : method;
+    },
+  });
+}
+
+// STATS_BACKEND picks the storage: firestore (default), memory or file (STATS_FILE, default .data/stats.json)
+export function createStatsRepository(): PlayerStatsRepository {
+  const backend = process.env.STATS_BACKEND || 'firestore';
+  switch (backend) {
+    case 'firestore':
+      return traceStatsRepository(createFirestoreStatsRepository(), 'Firestore');
+    case 'memory':
+      return createMemoryStatsRepository();
+    case 'file':
+      return createFileStatsRepository(process.env.STATS_FILE || '.data/stats.json');
+    default:
+      throw new Error(`Unknown STATS_BACKEND "${backend}". Use firestore, memory or file.`);
+  }
+}
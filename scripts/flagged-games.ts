@@ -0,0 +1,26 @@
+// Lists the games the anti-farming rules held back from the stats, newest first.
+//
+//   npm run flagged-games -- --limit 50
+import { createStatsRepository } from '../lib/stats-repository.js'
+
+const args = process.argv.slice(2)
+const limitIndex = args.indexOf('--limit')
+const limit = limitIndex >= 0 ? Number(args[limitIndex + 1]) : 20
+
+if (!Number.isInteger(limit) || limit < 1) {
+  console.error('Usage: flagged-games [--limit <count>]')
+  process.exit(1)
+}
+
+const flagged = await createStatsRepository().getFlaggedGames(limit)
+console.log(`${flagged.length} flagged games`)
+for (const { id, game, reasons, flaggedAt } of flagged) {
+  console.log([
+    flaggedAt.toISOString(),
+    `FID ${game.fid}`.padEnd(14),
+    `${game.variant || 'classic'} ${game.difficulty} ${game.result}`.padEnd(24),
+    id,
+    reasons.join('; '),
+  ].join(' '))
+}
+process.exit(0)
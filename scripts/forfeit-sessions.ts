@@ -0,0 +1,10 @@
+// Records every game session left longer than GAME_FORFEIT_MINUTES as a loss.
+//
+//   npm run forfeit-sessions
+//
+// Players who come back are handled as they arrive, this catches the ones who never do.
+import { forfeitExpiredSessions } from '../api/index.js'
+
+const forfeited = await forfeitExpiredSessions()
+console.log(`Forfeited ${forfeited} abandoned games`)
+process.exit(0)
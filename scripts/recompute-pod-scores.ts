@@ -0,0 +1,38 @@
+// Recomputes every player's stored POD Score under one scoring version.
+//
+//   npm run recompute-scores -- --version v4 --dry-run
+//
+// Without --version the active version (POD_SCORE_VERSION) is used. A dry run writes
+// nothing and lists the score and rank changes the real run would make.
+import { activeScoringConfig, getScoringConfig, recomputePODScores } from '../api/index.js'
+
+const args = process.argv.slice(2)
+const versionIndex = args.indexOf('--version')
+const version = versionIndex >= 0 ? args[versionIndex + 1] : activeScoringConfig.version
+const dryRun = args.includes('--dry-run')
+
+if (!version) {
+  console.error('Usage: recompute-pod-scores [--version <name>] [--dry-run]')
+  process.exit(1)
+}
+
+const config = getScoringConfig(version)
+const changes = await recomputePODScores(config, dryRun)
+
+const moved = changes.filter(change => change.oldRank !== change.newRank || change.oldScore !== change.newScore)
+console.log(`${dryRun ? 'Dry run: ' : ''}POD Score ${config.version} for ${changes.length} players, ${moved.length} changed`)
+for (const change of moved) {
+  const rankDelta = change.oldRank === null ? 'new' : change.oldRank - change.newRank
+  console.log([
+    `FID ${change.fid}`.padEnd(14),
+    `rank ${change.oldRank ?? '-'} -> ${change.newRank} (${typeof rankDelta === 'number' && rankDelta > 0 ? '+' : ''}${rankDelta})`.padEnd(26),
+    `score ${change.oldScore ?? '-'} (${change.oldVersion ?? 'unversioned'}) -> ${change.newScore}`,
+  ].join(' '))
+}
+if (!dryRun) {
+  console.log(`Stored ${changes.length} scores as ${config.version}`)
+  if (config.version !== activeScoringConfig.version) {
+    console.log(`Set POD_SCORE_VERSION=${config.version} so new games are scored the same way`)
+  }
+}
+process.exit(0)
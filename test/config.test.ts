@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigError, loadConfig } from '../lib/config.js';
+
+const DEPLOYED = { VERCEL: '1', GAME_STATE_SECRET: 'a-secret-that-is-long-enough' };
+
+test('defaults to the gRPC hub and a five minute message window', () => {
+  assert.deepEqual(loadConfig({}).frameVerification, { hubClient: 'grpc', maxAgeSeconds: 300 });
+});
+
+test('allows the local hub client in development only', () => {
+  assert.equal(loadConfig({ HUB_CLIENT: 'local' }).frameVerification.hubClient, 'local');
+  assert.throws(() => loadConfig({ ...DEPLOYED, HUB_CLIENT: 'local' }), /HUB_CLIENT=local/);
+});
+
+test('rejects a message window that is not a positive whole number', () => {
+  for (const value of ['-5', '0', '1.5', 'soon']) {
+    assert.throws(() => loadConfig({ FRAME_MESSAGE_MAX_AGE_SECONDS: value }), ConfigError);
+  }
+  assert.equal(loadConfig({ FRAME_MESSAGE_MAX_AGE_SECONDS: '60' }).frameVerification.maxAgeSeconds, 60);
+});
+
+test('requires GAME_STATE_SECRET when deployed', () => {
+  assert.throws(() => loadConfig({ VERCEL: '1' }), /GAME_STATE_SECRET/);
+  assert.equal(loadConfig(DEPLOYED).gameStateSecret, DEPLOYED.GAME_STATE_SECRET);
+});
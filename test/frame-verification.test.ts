@@ -0,0 +1,87 @@
+// Runs offline against the memory backend and the local hub client, see the `test` script
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'node:crypto';
+import {
+  FarcasterNetwork, FrameActionBody, Message, NobleEd25519Signer, makeFrameAction, toFarcasterTime,
+} from '@farcaster/hub-nodejs';
+import { FrameVerificationError, verifyFrameMessage } from '../api/index.js';
+
+const FID = 1234;
+const BASE_URL = 'https://podplay.vercel.app/api';
+
+type FrameRequest = Parameters<typeof verifyFrameMessage>[0];
+
+async function signFrameAction({ url = `${BASE_URL}/game`, buttonIndex = 1, inputText = '', state = '', sentAt = Date.now() } = {}) {
+  const signer = new NobleEd25519Signer(randomBytes(32));
+  const message = await makeFrameAction(
+    FrameActionBody.create({
+      url: Buffer.from(url),
+      buttonIndex,
+      inputText: Buffer.from(inputText),
+      state: Buffer.from(state),
+      castId: { fid: FID, hash: randomBytes(20) },
+    }),
+    { fid: FID, network: FarcasterNetwork.MAINNET, timestamp: toFarcasterTime(sentAt)._unsafeUnwrap() },
+    signer,
+  );
+  return message._unsafeUnwrap();
+}
+
+function toHex(message: Message): string {
+  return Buffer.from(Message.encode(message).finish()).toString('hex');
+}
+
+// The parts of a Frog context verifyFrameMessage reads
+function frameRequest(messageBytes: string, frameData = { fid: FID, buttonIndex: 1, inputText: '' }, state?: string): FrameRequest {
+  return {
+    req: { json: async () => ({ trustedData: { messageBytes }, untrustedData: { state } }) },
+    frameData,
+  } as unknown as FrameRequest;
+}
+
+async function assertRejected(request: FrameRequest, reason: RegExp) {
+  await assert.rejects(verifyFrameMessage(request), (error: unknown) =>
+    error instanceof FrameVerificationError && reason.test(error.message)
+  );
+}
+
+test('accepts a fresh message signed for this app', async () => {
+  const message = await signFrameAction();
+  const verified = await verifyFrameMessage(frameRequest(toHex(message)));
+  assert.equal(verified.data?.fid, FID);
+});
+
+test('rejects a message whose signed bytes were tampered with', async () => {
+  const message = await signFrameAction();
+  message.data!.frameActionBody!.buttonIndex = 2;
+  await assertRejected(frameRequest(toHex(message), { fid: FID, buttonIndex: 2, inputText: '' }), /Invalid frame message/);
+});
+
+test('rejects a message older than the allowed window', async () => {
+  const message = await signFrameAction({ sentAt: Date.now() - 10 * 60 * 1000 });
+  await assertRejected(frameRequest(toHex(message)), /outside the \d+s window/);
+});
+
+test('rejects a message signed for another frame server', async () => {
+  const message = await signFrameAction({ url: 'https://podplay.vercel.app.example.com/api/game' });
+  await assertRejected(frameRequest(toHex(message)), /not this app/);
+});
+
+test('rejects frame data that differs from the signed message', async () => {
+  const message = await signFrameAction({ inputText: 'A1' });
+  await assertRejected(frameRequest(toHex(message), { fid: FID, buttonIndex: 1, inputText: 'B2' }), /does not match/);
+});
+
+test('rejects button values edited in the untrusted state', async () => {
+  const signedState = JSON.stringify({ previousButtonValues: ['move:game:4'] });
+  const message = await signFrameAction({ state: signedState });
+  const editedState = JSON.stringify({ previousButtonValues: ['move:game:0'] });
+  await assertRejected(frameRequest(toHex(message), undefined, editedState), /state does not match/);
+});
+
+test('accepts each message only once', async () => {
+  const messageBytes = toHex(await signFrameAction());
+  await verifyFrameMessage(frameRequest(messageBytes));
+  await assertRejected(frameRequest(messageBytes), /already used/);
+});
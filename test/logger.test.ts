@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ClientError } from 'graphql-request';
+import { redact } from '../lib/logger.js';
+
+test('logs only the class and status of a GraphQL client error', () => {
+  const error = new ClientError(
+    { status: 502, headers: new Headers(), body: '{"error":"upstream down"}' },
+    { query: 'query MyQuery($identity: Identity!) { Socials { Social { userAddress } } }', variables: { identity: 'fc_fid:1234' } },
+  );
+  assert.deepEqual(redact({ error }), { error: { name: 'ClientError', status: 502 } });
+});
+
+test('redacts wallet addresses in other errors', () => {
+  const redacted = redact(new Error('No portfolio for 0x1234567890abcdef1234567890abcdef12345678')) as { message: string };
+  assert.equal(redacted.message, 'No portfolio for 0x[address]');
+});
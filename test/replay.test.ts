@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InvalidGameStateError, decodeState, encodeState, getCPUMove, replayGame, rngForTurn } from '../api/index.js';
+import type { GameState } from '../lib/game-rules.js';
+
+const SEED = 0x1234abcd;
+
+// Plays easy classic games where the player always takes the first open cell. Keep to four plies
+// or fewer, since the fifth can complete the top row and end the game.
+// `beforeCpuMove` runs before each CPU move, to draw from the other RNG streams in between.
+function playGame(seed: number, plies: number, beforeCpuMove: (ply: number) => void = () => {}) {
+  const board: (string | null)[] = Array(9).fill(null);
+  const moves: number[] = [];
+  for (let ply = 0; ply < plies; ply++) {
+    if (ply % 2 === 0) {
+      const move = board.indexOf(null);
+      board[move] = 'O';
+      moves.push(move);
+    } else {
+      beforeCpuMove(ply);
+      const { index } = getCPUMove(board, 'easy', rngForTurn(seed, ply));
+      board[index] = 'X';
+      moves.push(index);
+    }
+  }
+  return { board, moves };
+}
+
+function gameState(board: (string | null)[], moves: number[]): GameState {
+  return {
+    board, moves, seed: SEED, currentPlayer: 'O', isGameOver: false, difficulty: 'easy', variant: 'classic',
+    turnOrder: 'first', hintsUsed: 0, gameId: 'replay-test', startedAt: 0, playerMark: 'O', playerFirst: true,
+  };
+}
+
+test('the same seed and player moves give the same board', () => {
+  const first = playGame(SEED, 4);
+  const second = playGame(SEED, 4);
+  assert.deepEqual(second, first);
+
+  const replay = replayGame(SEED, 'easy', first.moves, first.board);
+  assert.equal(replay.matches, true);
+  assert.deepEqual(replay.board, first.board);
+});
+
+test('a CPU move that differs from the seeded one is rejected', () => {
+  const { board, moves } = playGame(SEED, 4);
+  assert.deepEqual(decodeState(encodeState(gameState(board, moves))).board, board);
+
+  // Move the CPU's last mark to another open cell
+  const cpuMove = moves[3];
+  const otherCell = board.indexOf(null);
+  const tamperedBoard = [...board];
+  tamperedBoard[cpuMove] = null;
+  tamperedBoard[otherCell] = 'X';
+  const tamperedMoves = [...moves.slice(0, 3), otherCell];
+
+  assert.equal(replayGame(SEED, 'easy', tamperedMoves, tamperedBoard).matches, false);
+  assert.throws(() => decodeState(encodeState(gameState(tamperedBoard, tamperedMoves))), InvalidGameStateError);
+});
+
+test('drawing hints and quick picks does not shift the CPU moves', () => {
+  const plain = playGame(SEED, 4);
+  const withHints = playGame(SEED, 4, ply => {
+    const hint = rngForTurn(SEED, ply, 'hint');
+    const buttons = rngForTurn(SEED, ply, 'buttons');
+    for (let i = 0; i < 10; i++) {
+      hint();
+      buttons();
+    }
+  });
+  assert.deepEqual(withHints, plain);
+  assert.equal(replayGame(SEED, 'easy', withHints.moves, withHints.board).matches, true);
+
+  // The streams are separate sequences, not the CPU stream under another name
+  assert.notEqual(rngForTurn(SEED, 1, 'hint')(), rngForTurn(SEED, 1)());
+  assert.notEqual(rngForTurn(SEED, 1, 'buttons')(), rngForTurn(SEED, 1)());
+});
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InvalidGameStateError, signState, verifySignedState } from '../api/index.js';
+
+test('returns the value signed as the expected kind', () => {
+  const token = signState('daily', { date: '2026-01-01', playerMoves: [4] });
+  assert.deepEqual(verifySignedState(token, 'daily'), { date: '2026-01-01', playerMoves: [4] });
+});
+
+test('rejects a value signed as another kind', () => {
+  const token = signState('stats', { wins: 3 });
+  assert.throws(() => verifySignedState(token, 'daily'), InvalidGameStateError);
+});
+
+test('rejects a payload edited after signing', () => {
+  const [, signature] = signState('daily', { playerMoves: [4] }).split('.');
+  const payload = Buffer.from(JSON.stringify({ kind: 'daily', value: { playerMoves: [0, 1, 2] } })).toString('base64url');
+  assert.throws(() => verifySignedState(`${payload}.${signature}`, 'daily'), /signature does not match/);
+});
+
+test('rejects an unsigned value', () => {
+  assert.throws(() => verifySignedState('eyJ3aW5zIjozfQ', 'stats'), /not signed/);
+});
@@ -0,0 +1,175 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  MatchMoveError, createFileStatsRepository, createMemoryStatsRepository, type GameRecord, type MatchRecord,
+} from '../lib/stats-repository.js';
+
+const FID = '1234';
+const STARTED_AT = new Date('2026-03-01T12:00:00Z');
+
+function game(result: GameRecord['result'], overrides: Partial<GameRecord> = {}): GameRecord {
+  return {
+    fid: FID, difficulty: 'medium', moves: [4, 0, 8], board: Array(9).fill(null), result,
+    startedAt: STARTED_AT, endedAt: new Date(STARTED_AT.getTime() + 60 * 1000), ...overrides,
+  };
+}
+
+function openMatch(creatorFid: number, opponentFid: number | null): MatchRecord {
+  return {
+    board: Array(9).fill(null), creatorFid, opponentFid, currentPlayer: 'O',
+    status: opponentFid ? 'active' : 'open', winnerFid: null, createdAt: STARTED_AT, updatedAt: STARTED_AT,
+  };
+}
+
+function withTempFile(fn: (filePath: string) => Promise<void>) {
+  return async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'podplay-stats-'));
+    try {
+      await fn(join(dir, 'stats.json'));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+test('recordGame counts each game ID once', async () => {
+  const repository = createMemoryStatsRepository();
+  assert.equal(await repository.recordGame('game-1', game('win'), null), true);
+  assert.equal(await repository.recordGame('game-1', game('win'), null), false);
+
+  const record = await repository.getUserRecord(FID);
+  assert.equal(record?.wins, 1);
+  assert.equal(record?.mediumWins, 1);
+  assert.equal((await repository.getGames(FID, 0, 10)).length, 1);
+});
+
+test('recordGame tallies classic results and streaks', async () => {
+  const repository = createMemoryStatsRepository();
+  await repository.recordGame('game-1', game('win'), null);
+  await repository.recordGame('game-2', game('win', { difficulty: 'hard', hintsUsed: 1 }), null);
+  await repository.recordGame('game-3', game('draw', { playerFirst: false }), null);
+  await repository.recordGame('game-4', game('win'), null);
+
+  const record = await repository.getUserRecord(FID);
+  assert.deepEqual(
+    [record?.wins, record?.losses, record?.ties, record?.mediumWins, record?.hardWins, record?.mediumTies],
+    [3, 0, 1, 2, 1, 1],
+  );
+  assert.equal(record?.currentStreak, 1);
+  assert.equal(record?.longestStreak, 2);
+  assert.deepEqual(record?.hintedWins, { hard: 1 });
+  assert.deepEqual(record?.positionStats, { first: { wins: 3, losses: 0, ties: 0 }, second: { wins: 0, losses: 0, ties: 1 } });
+});
+
+test('recordGame keeps variant games out of the classic counters', async () => {
+  const repository = createMemoryStatsRepository();
+  await repository.recordGame('game-1', game('win'), null);
+  await repository.recordGame('game-2', game('lose', { variant: 'wild' }), null);
+
+  const record = await repository.getUserRecord(FID);
+  assert.equal(record?.losses, 0);
+  assert.equal(record?.currentStreak, 1);
+  assert.deepEqual(record?.variantStats, { wild: { wins: 0, losses: 1, ties: 0 } });
+  assert.deepEqual(record?.positionStats?.first, { wins: 1, losses: 1, ties: 0 });
+});
+
+test('recordGame withholds credit for easy games past the daily allowance', async () => {
+  const repository = createMemoryStatsRepository();
+  for (let i = 1; i <= 12; i++) {
+    await repository.recordGame(`game-${i}`, game('win', { difficulty: 'easy' }), null);
+  }
+
+  const record = await repository.getUserRecord(FID);
+  assert.equal(record?.easyWins, 12);
+  assert.deepEqual(record?.easyGamesToday, { date: '2026-03-01', count: 12 });
+  assert.deepEqual(record?.withheldEasyCredit, { wins: 0.5 + 0.75, losses: 0, ties: 0 });
+});
+
+test('flagGame holds a game back from the counters', async () => {
+  const repository = createMemoryStatsRepository();
+  const flaggedAt = new Date(STARTED_AT.getTime() + 120 * 1000);
+  assert.equal(await repository.flagGame({ id: 'game-1', game: game('win'), reasons: ['too fast'], flaggedAt }), true);
+  assert.equal(await repository.flagGame({ id: 'game-1', game: game('win'), reasons: ['too fast'], flaggedAt }), false);
+  assert.equal(await repository.recordGame('game-1', game('win'), null), false);
+  assert.equal(await repository.getUserRecord(FID), null);
+
+  await repository.recordGame('game-2', game('win'), null);
+  assert.equal(await repository.flagGame({ id: 'game-2', game: game('win'), reasons: ['too fast'], flaggedAt }), false);
+
+  const flagged = await repository.getFlaggedGames(10);
+  assert.deepEqual(flagged.map(({ id, reasons }) => ({ id, reasons })), [{ id: 'game-1', reasons: ['too fast'] }]);
+});
+
+test('playMatchMove enforces turns', async () => {
+  const repository = createMemoryStatsRepository();
+  await repository.createMatch('match-1', openMatch(1, 2));
+
+  await assert.rejects(repository.playMatchMove('match-1', 2, 4), /not your turn/);
+  await assert.rejects(repository.playMatchMove('match-1', 3, 4), /not a player/);
+  await repository.playMatchMove('match-1', 1, 4);
+  await assert.rejects(repository.playMatchMove('match-1', 1, 0), /not your turn/);
+  await assert.rejects(repository.playMatchMove('match-1', 2, 4), /already taken/);
+
+  const match = await repository.playMatchMove('match-1', 2, 0);
+  assert.equal(match.currentPlayer, 'O');
+  assert.deepEqual((await repository.getMatch('match-1'))?.board, match.board);
+});
+
+test('playMatchMove gives an open challenge to whoever answers first', async () => {
+  const repository = createMemoryStatsRepository();
+  await repository.createMatch('match-1', openMatch(1, null));
+  await assert.rejects(repository.playMatchMove('match-1', 2, 4), MatchMoveError);
+
+  await repository.playMatchMove('match-1', 1, 4);
+  const match = await repository.playMatchMove('match-1', 2, 0);
+  assert.equal(match.opponentFid, 2);
+  assert.equal(match.status, 'active');
+  await assert.rejects(repository.playMatchMove('match-1', 3, 8), /not a player/);
+});
+
+test('playMatchMove records a finished match for both players', async () => {
+  const repository = createMemoryStatsRepository();
+  await repository.createMatch('match-1', openMatch(1, 2));
+  for (const [fid, move] of [[1, 0], [2, 3], [1, 1], [2, 4], [1, 2]]) {
+    await repository.playMatchMove('match-1', fid, move);
+  }
+
+  assert.equal((await repository.getMatch('match-1'))?.winnerFid, 1);
+  assert.deepEqual(await repository.getPvpRecord('1'), { wins: 1, losses: 0, ties: 0 });
+  assert.deepEqual(await repository.getPvpRecord('2'), { wins: 0, losses: 1, ties: 0 });
+  await assert.rejects(repository.playMatchMove('match-1', 2, 5), /already over/);
+});
+
+test('the file backend restores dates', withTempFile(async (filePath) => {
+  const flaggedAt = new Date('2026-03-01T13:00:00Z');
+  const solvedAt = new Date('2026-03-01T14:00:00Z');
+  const expiresAt = new Date('2026-03-01T15:00:00Z');
+  const written = createFileStatsRepository(filePath);
+  await written.recordGame('game-1', game('win'), null);
+  await written.flagGame({ id: 'game-2', game: game('win'), reasons: ['too fast'], flaggedAt });
+  await written.unlockBadges(FID, ['first-hard-win'], flaggedAt);
+  await written.recordPuzzleSolve({ fid: FID, date: '2026-03-01', moves: [4], solvedAt });
+  await written.saveSession({
+    id: 'game-3', fid: FID, updatedAt: solvedAt, expiresAt, mode: 'ultimate',
+    state: { difficulty: 'easy', gameId: 'game-3', seed: 1, moves: [40], startedAt: STARTED_AT.getTime() },
+  });
+  await written.createMatch('match-1', openMatch(1, 2));
+
+  const read = createFileStatsRepository(filePath);
+  const [stored] = await read.getGames(FID, 0, 1);
+  assert.deepEqual([stored.startedAt, stored.endedAt], [game('win').startedAt, game('win').endedAt]);
+  const [flagged] = await read.getFlaggedGames(1);
+  assert.deepEqual([flagged.flaggedAt, flagged.game.startedAt], [flaggedAt, STARTED_AT]);
+  const record = await read.getUserRecord(FID);
+  assert.ok(record?.timestamp instanceof Date);
+  assert.deepEqual(record?.badges, { 'first-hard-win': flaggedAt });
+  assert.equal(record?.lastDailySolve, '2026-03-01');
+  const session = await read.getSession('game-3');
+  assert.deepEqual([session?.updatedAt, session?.expiresAt], [solvedAt, expiresAt]);
+  assert.deepEqual((await read.getExpiredSessions(expiresAt, 10)).map(({ id }) => id), ['game-3']);
+  const match = await read.getMatch('match-1');
+  assert.deepEqual([match?.createdAt, match?.updatedAt], [STARTED_AT, STARTED_AT]);
+}));